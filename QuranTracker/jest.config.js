@@ -1,5 +1,7 @@
 module.exports = {
   preset: 'react-native',
+  // Benchmarks depend on the machine's speed and run separately with `npm run bench`
+  testPathIgnorePatterns: ['/node_modules/', '\\.bench\\.ts$'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   transformIgnorePatterns: [
     'node_modules/(?!(react-native|@react-native|@react-navigation|quran-meta)/)',
@@ -4,8 +4,75 @@
  * These tests verify the core business logic of the goal calculation engine.
  */
 
-import { generatePlan, validateGoal } from '../goalCalculator';
-import { UserGoal } from '@/types';
+import {
+  generatePlan,
+  validateGoal,
+  recalculatePlanWithCatchUp,
+  calculateRequiredPace,
+  getAssignmentProgress,
+  rollOverLeftovers,
+  rebalanceAfterReadingAhead,
+  getFirstUnreadAyah,
+  replanFromFirstUnread,
+  isPausedDay,
+  shiftPlanAroundPauses,
+  splitIntoMemorizationUnits,
+  generateRevisionPlan,
+  getRevisionAssignments,
+  validateRevisionRotation,
+} from '../goalCalculator';
+import {
+  getJuzById,
+  getJuzForAyah,
+  getSurahById,
+  getRubAlHizbById,
+  getManzilById,
+  getRukuForAyah,
+  getRubAlHizbForAyah,
+} from '@/services/quranData';
+import { getAyahWeights } from '@/services/quranText';
+import {
+  parseQuranRef,
+  getSurahAndAyah,
+  isQuranRef,
+  getRefsInRange,
+  getPageOfRef,
+} from '@/lib/quranRef';
+import { UserGoal, DailyAssignment, RevisionRotation, QuranRef } from '@/types';
+
+/** Reference for a "surah:ayah" string known to be valid */
+const ref = (value: string | undefined) => parseQuranRef(value as string) as QuranRef;
+
+/**
+ * A page-a-day Juz 'Amma plan from 1 January 2025 whose first two days were
+ * missed and spread over the rest on 3 January, so every later day holds its
+ * own page and a catch-up range
+ */
+const buildCatchUpPlan = () => {
+  const goal: UserGoal = {
+    id: 'test-catch-up-plan',
+    target: 'specific-juz',
+    targetValue: 30,
+    unit: 'pages',
+    dailyAmount: 1,
+    startDate: new Date(2025, 0, 1),
+    daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+  };
+  const original = generatePlan(goal);
+  const { plan } = recalculatePlanWithCatchUp(
+    goal,
+    original,
+    original.slice(0, 2),
+    'spread-evenly',
+    new Date(2025, 0, 3),
+  );
+  
+  return { goal, original, plan };
+};
+
+/** Every ayah a plan covers, in order (an ayah planned twice is listed twice) */
+const listPlannedAyahs = (plan: DailyAssignment[]) =>
+  plan.flatMap(a => getRefsInRange(a.fromAyah, a.toAyah)).sort((a, b) => a - b);
 
 describe('Goal Calculator', () => {
   describe('validateGoal', () => {
@@ -230,10 +297,9 @@ describe('Goal Calculator', () => {
       
       const plan = generatePlan(goal);
       
-      // All assignments should have valid ayah format (surah:ayah)
-      const ayahRegex = /^\d+:\d+$/;
-      expect(plan.every(a => ayahRegex.test(a.fromAyah))).toBe(true);
-      expect(plan.every(a => ayahRegex.test(a.toAyah))).toBe(true);
+      // All assignments should point at real ayahs
+      expect(plan.every(a => isQuranRef(a.fromAyah))).toBe(true);
+      expect(plan.every(a => isQuranRef(a.toAyah))).toBe(true);
     });
     
     it('should handle goals with deadline', () => {
@@ -259,4 +325,1263 @@ describe('Goal Calculator', () => {
       expect(plan.every(a => a.date <= deadline)).toBe(true);
     });
   });
+  
+  describe('ayah ranges and resume positions', () => {
+    const rangeGoal: UserGoal = {
+      id: 'test-range-1',
+      target: 'ayah-range',
+      targetRange: { fromAyah: ref('2:142'), toAyah: ref('5:120') },
+      unit: 'pages',
+      dailyAmount: 5,
+      startDate: new Date('2025-01-01'),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    it('should plan an arbitrary ayah range by pages', () => {
+      const plan = generatePlan(rangeGoal);
+      
+      expect(plan[0].fromAyah).toBe(ref('2:142'));
+      expect(plan[0].fromPage).toBe(22);
+      expect(plan[plan.length - 1].toAyah).toBe(ref('5:120'));
+      expect(plan[plan.length - 1].toPage).toBe(127);
+    });
+    
+    it('should plan an arbitrary ayah range by ayahs', () => {
+      const plan = generatePlan({
+        ...rangeGoal,
+        targetRange: { fromAyah: ref('2:280'), toAyah: ref('3:5') },
+        unit: 'ayahs',
+        dailyAmount: 4,
+      });
+      
+      expect(plan.map(a => [a.fromAyah, a.toAyah])).toEqual([
+        [ref('2:280'), ref('2:283')],
+        [ref('2:284'), ref('3:1')],
+        [ref('3:2'), ref('3:5')],
+      ]);
+    });
+    
+    it('should resume from a position part-way through the target', () => {
+      const plan = generatePlan({
+        id: 'test-range-2',
+        target: 'whole-quran',
+        startFrom: ref('18:1'),
+        unit: 'pages',
+        dailyAmount: 1,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan[0].fromAyah).toBe(ref('18:1'));
+      expect(plan[0].fromPage).toBe(293);
+      expect(plan).toHaveLength(604 - 293 + 1);
+      expect(plan[plan.length - 1].toAyah).toBe(ref('114:6'));
+    });
+    
+    it('should not read past the end of a surah goal by ayahs', () => {
+      const plan = generatePlan({
+        id: 'test-range-3',
+        target: 'specific-surah',
+        targetValue: 1,
+        unit: 'ayahs',
+        dailyAmount: 5,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan).toHaveLength(2);
+      expect(plan[1].toAyah).toBe(ref('1:7'));
+    });
+    
+    it('should validate a correct ayah range', () => {
+      expect(validateGoal(rangeGoal).valid).toBe(true);
+    });
+    
+    it('should reject an inverted range', () => {
+      const result = validateGoal({
+        ...rangeGoal,
+        targetRange: { fromAyah: ref('5:120'), toAyah: ref('2:142') },
+      });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Range start must not come after range end');
+    });
+    
+    it('should reject ranges with ayahs that do not exist', () => {
+      const result = validateGoal({
+        ...rangeGoal,
+        targetRange: { fromAyah: 0 as QuranRef, toAyah: 6237 as QuranRef },
+      });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Range start "0" is not a valid ayah');
+      expect(result.errors).toContain('Range end "6237" is not a valid ayah');
+    });
+    
+    it('should reject a start position outside the target', () => {
+      const result = validateGoal({
+        id: 'test-range-4',
+        target: 'specific-juz',
+        targetValue: 30,
+        startFrom: ref('2:1'),
+        unit: 'pages',
+        dailyAmount: 1,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Start position must be within the target');
+    });
+  });
+  
+  describe('hizb, rub\' al-hizb and manzil', () => {
+    it('should plan one rub\' a day on real quarter boundaries', () => {
+      const plan = generatePlan({
+        id: 'test-division-1',
+        target: 'whole-quran',
+        unit: 'rub',
+        dailyAmount: 1,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan).toHaveLength(240);
+      plan.forEach((assignment, i) => {
+        const rub = getRubAlHizbById(i + 1);
+        expect(assignment.fromAyah).toBe(ref(rub?.startAyah));
+        expect(assignment.toAyah).toBe(ref(rub?.endAyah));
+      });
+      expect(plan[0].toAyah).toBe(ref('2:25'));
+    });
+    
+    it('should plan a hizb target in quarters', () => {
+      const plan = generatePlan({
+        id: 'test-division-2',
+        target: 'specific-hizb',
+        targetValue: 1,
+        unit: 'rub',
+        dailyAmount: 2,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan).toHaveLength(2);
+      expect(plan[0].fromAyah).toBe(ref('1:1'));
+      expect(plan[0].toAyah).toBe(ref(getRubAlHizbById(2)?.endAyah));
+      expect(plan[1].toAyah).toBe(ref(getRubAlHizbById(4)?.endAyah));
+    });
+    
+    it('should plan a manzil target by pages', () => {
+      const manzil = getManzilById(7);
+      const plan = generatePlan({
+        id: 'test-division-3',
+        target: 'specific-manzil',
+        targetValue: 7,
+        unit: 'pages',
+        dailyAmount: 4,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan[0].fromAyah).toBe(ref('50:1'));
+      expect(plan[0].fromPage).toBe(manzil?.startPage);
+      expect(plan[plan.length - 1].toPage).toBe(604);
+    });
+    
+    it('should plan a whole Quran goal at one manzil a day', () => {
+      const plan = generatePlan({
+        id: 'test-division-4',
+        target: 'whole-quran',
+        unit: 'manzil',
+        dailyAmount: 1,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan.map(a => a.fromAyah)).toEqual([
+        ref('1:1'),
+        ref('5:1'),
+        ref('10:1'),
+        ref('17:1'),
+        ref('26:1'),
+        ref('37:1'),
+        ref('50:1'),
+      ]);
+    });
+    
+    it('should reject out-of-range division targets', () => {
+      const result = validateGoal({
+        id: 'test-division-5',
+        target: 'specific-manzil',
+        targetValue: 8,
+        unit: 'pages',
+        dailyAmount: 1,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [1, 2, 3],
+      });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Manzil number must be between 1 and 7');
+    });
+  });
+  
+  describe('juz and surah units', () => {
+    it('should plan one juz a day on real juz boundaries', () => {
+      const plan = generatePlan({
+        id: 'test-juz-unit-1',
+        target: 'whole-quran',
+        unit: 'juz',
+        dailyAmount: 1,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan).toHaveLength(30);
+      plan.forEach((assignment, i) => {
+        const juz = getJuzById(i + 1);
+        expect(assignment.fromAyah).toBe(ref(juz?.startAyah));
+        expect(assignment.toAyah).toBe(ref(juz?.endAyah));
+        expect(assignment.fromPage).toBe(juz?.startPage);
+        expect(assignment.toPage).toBe(juz?.endPage);
+      });
+    });
+    
+    it('should plan one surah a day on real surah boundaries', () => {
+      const plan = generatePlan({
+        id: 'test-surah-unit-1',
+        target: 'whole-quran',
+        unit: 'surah',
+        dailyAmount: 1,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      expect(plan).toHaveLength(114);
+      plan.forEach((assignment, i) => {
+        const surah = getSurahById(i + 1);
+        expect(assignment.fromAyah).toBe(ref(`${i + 1}:1`));
+        expect(assignment.toAyah).toBe(ref(`${i + 1}:${surah?.ayahCount}`));
+      });
+    });
+    
+    it('should cover several juz per day from a resume position', () => {
+      const plan = generatePlan({
+        id: 'test-juz-unit-2',
+        target: 'whole-quran',
+        startFrom: ref('2:200'),
+        unit: 'juz',
+        dailyAmount: 3,
+        startDate: new Date('2025-01-01'),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      });
+      
+      // Juz 2-30 is 29 juz, so the last day covers the remaining 2
+      expect(plan).toHaveLength(10);
+      expect(plan[0].fromAyah).toBe(ref('2:200'));
+      expect(plan[0].toAyah).toBe(ref(getJuzById(4)?.endAyah));
+      expect(plan[9].fromAyah).toBe(ref(getJuzById(29)?.startAyah));
+      expect(plan[9].toAyah).toBe(ref('114:6'));
+    });
+    
+    describe('every target and unit combination', () => {
+      const targets: { name: string; goal: Partial<UserGoal>; from: QuranRef; to: QuranRef }[] = [
+        { name: 'whole-quran', goal: { target: 'whole-quran' }, from: ref('1:1'), to: ref('114:6') },
+        { name: 'specific-juz', goal: { target: 'specific-juz', targetValue: 30 }, from: ref('78:1'), to: ref('114:6') },
+        { name: 'specific-surah', goal: { target: 'specific-surah', targetValue: 2 }, from: ref('2:1'), to: ref('2:286') },
+        { name: 'specific-hizb', goal: { target: 'specific-hizb', targetValue: 1 }, from: ref('1:1'), to: ref('2:74') },
+        { name: 'specific-rub', goal: { target: 'specific-rub', targetValue: 5 }, from: ref('2:75'), to: ref('2:91') },
+        { name: 'specific-manzil', goal: { target: 'specific-manzil', targetValue: 7 }, from: ref('50:1'), to: ref('114:6') },
+        {
+          name: 'ayah-range',
+          goal: { target: 'ayah-range', targetRange: { fromAyah: ref('2:142'), toAyah: ref('5:120') } },
+          from: ref('2:142'),
+          to: ref('5:120'),
+        },
+      ];
+      
+      const units: { unit: UserGoal['unit']; dailyAmount: number }[] = [
+        { unit: 'pages', dailyAmount: 20 },
+        { unit: 'ayahs', dailyAmount: 300 },
+        { unit: 'juz', dailyAmount: 2 },
+        { unit: 'surah', dailyAmount: 5 },
+        { unit: 'hizb', dailyAmount: 2 },
+        { unit: 'rub', dailyAmount: 4 },
+        { unit: 'manzil', dailyAmount: 1 },
+      ];
+      
+      /** Whether an ayah is the last of its juz or surah */
+      const endsDivision = (unit: 'juz' | 'surah', ayahRef: QuranRef): boolean => {
+        const parsed = getSurahAndAyah(ayahRef);
+        if (unit === 'surah') {
+          return parsed.ayahNumber === getSurahById(parsed.surahId)?.ayahCount;
+        }
+        const juzId = getJuzForAyah(parsed.surahId, parsed.ayahNumber)!;
+        return ref(getJuzById(juzId)?.endAyah) === ayahRef;
+      };
+      
+      targets.forEach(({ name, goal, from, to }) => {
+        units.forEach(({ unit, dailyAmount }) => {
+          it(`should cover ${name} contiguously in ${unit}`, () => {
+            const plan = generatePlan({
+              id: `test-matrix-${name}-${unit}`,
+              unit,
+              dailyAmount,
+              startDate: new Date('2025-01-01'),
+              daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+              ...goal,
+            } as UserGoal);
+            
+            expect(plan.length).toBeGreaterThan(0);
+            expect(plan[0].fromAyah).toBe(from);
+            expect(plan[plan.length - 1].toAyah).toBe(to);
+            
+            plan.forEach((assignment, i) => {
+              expect(assignment.toPage).toBeGreaterThanOrEqual(assignment.fromPage);
+              
+              if (i > 0) {
+                expect(assignment.fromAyah).toBe(plan[i - 1].toAyah + 1);
+              }
+              
+              if ((unit === 'juz' || unit === 'surah') && i < plan.length - 1) {
+                expect(endsDivision(unit, assignment.toAyah)).toBe(true);
+              }
+            });
+          });
+        });
+      });
+    });
+  });
+  
+  describe('deadline-driven planning', () => {
+    const ramadanGoal: UserGoal = {
+      id: 'test-deadline-1',
+      target: 'whole-quran',
+      unit: 'pages',
+      dailyAmount: 0,
+      planningMode: 'deadline',
+      startDate: new Date(2025, 2, 1),
+      deadline: new Date(2025, 2, 30), // 30 days
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    it('should finish exactly on the deadline', () => {
+      const plan = generatePlan(ramadanGoal);
+      
+      expect(plan).toHaveLength(30);
+      expect(plan[0].fromPage).toBe(1);
+      expect(plan[plan.length - 1].toPage).toBe(604);
+      expect(plan[plan.length - 1].date).toEqual(new Date(2025, 2, 30));
+    });
+    
+    it('should spread a fractional pace evenly across days', () => {
+      const plan = generatePlan(ramadanGoal);
+      const loads = plan.map(a => a.toPage - a.fromPage + 1);
+      
+      // 604 / 30 = 20.13 pages a day
+      expect(loads.every(load => load === 20 || load === 21)).toBe(true);
+      expect(loads.reduce((sum, load) => sum + load, 0)).toBe(604);
+      
+      // Consecutive days continue where the previous one stopped
+      for (let i = 1; i < plan.length; i++) {
+        expect(plan[i].fromPage).toBe(plan[i - 1].toPage + 1);
+      }
+    });
+    
+    it('should leave days free when there are fewer units than days', () => {
+      const goal: UserGoal = {
+        ...ramadanGoal,
+        target: 'specific-surah',
+        targetValue: 112, // Al-Ikhlas, 4 ayahs
+        unit: 'ayahs',
+        deadline: new Date(2025, 2, 8),
+      };
+      
+      const plan = generatePlan(goal);
+      
+      expect(plan).toHaveLength(4);
+      expect(plan[0].fromAyah).toBe(ref('112:1'));
+      expect(plan[plan.length - 1].toAyah).toBe(ref('112:4'));
+      expect(plan[plan.length - 1].date).toEqual(new Date(2025, 2, 8));
+    });
+    
+    it('should report the required pace', () => {
+      const pace = calculateRequiredPace(ramadanGoal);
+      
+      expect(pace.totalUnits).toBe(604);
+      expect(pace.readingDays).toBe(30);
+      expect(pace.unitsPerDay).toBeCloseTo(20.13, 2);
+      expect(pace.minimumDailyAmount).toBe(21);
+      expect(pace.meetsDeadline).toBe(true);
+    });
+    
+    it('should report when a fixed daily amount misses the deadline', () => {
+      const goal: UserGoal = {
+        ...ramadanGoal,
+        planningMode: 'daily-amount',
+        dailyAmount: 10,
+      };
+      
+      const pace = calculateRequiredPace(goal);
+      
+      expect(pace.meetsDeadline).toBe(false);
+      expect(pace.minimumDailyAmount).toBe(21);
+    });
+    
+    it('should require a deadline', () => {
+      const { deadline, ...withoutDeadline } = ramadanGoal;
+      
+      const result = validateGoal(withoutDeadline);
+      
+      expect(deadline).toBeDefined();
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('A deadline is required to plan by deadline');
+      expect(validateGoal(ramadanGoal).valid).toBe(true);
+    });
+  });
+  
+  describe('recalculatePlanWithCatchUp', () => {
+    const everyDayGoal: UserGoal = {
+      id: 'test-catch-up-1',
+      target: 'specific-juz',
+      targetValue: 30,
+      unit: 'pages',
+      dailyAmount: 1,
+      startDate: new Date(2025, 0, 1),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    const countAyahs = (from: QuranRef, to: QuranRef): number => to - from + 1;
+    
+    it('should spread missed reading evenly over the remaining days', () => {
+      const plan = generatePlan(everyDayGoal);
+      const missed = plan.slice(0, 2);
+      
+      const result = recalculatePlanWithCatchUp(
+        everyDayGoal,
+        plan,
+        missed,
+        'spread-evenly',
+        new Date(2025, 0, 3),
+      );
+      
+      expect(result.strategy).toBe('spread-evenly');
+      expect(result.meetsDeadline).toBe(true);
+      
+      // Missed days are no longer scheduled on their original dates
+      expect(result.plan.some(a => missed.includes(a))).toBe(false);
+      
+      const catchUps = result.plan.filter(a => a.isCatchUpDay);
+      const missedAyahs = missed.reduce((sum, a) => sum + countAyahs(a.fromAyah, a.toAyah), 0);
+      const catchUpAyahs = catchUps.reduce((sum, a) => sum + countAyahs(a.fromAyah, a.toAyah), 0);
+      expect(catchUpAyahs).toBe(missedAyahs);
+      
+      // Every catch-up lands on a remaining reading day
+      expect(catchUps.every(a => a.date >= new Date(2025, 0, 3))).toBe(true);
+      expect(catchUps[0].fromAyah).toBe(missed[0].fromAyah);
+      expect(catchUps[catchUps.length - 1].toAyah).toBe(missed[1].toAyah);
+    });
+    
+    it('should append catch-up days after the end of the plan', () => {
+      const plan = generatePlan(everyDayGoal);
+      const missed = plan.slice(0, 2);
+      const lastDate = plan[plan.length - 1].date;
+      
+      const result = recalculatePlanWithCatchUp(
+        everyDayGoal,
+        plan,
+        missed,
+        'append-days',
+        new Date(2025, 0, 3),
+      );
+      
+      expect(result.strategy).toBe('append-days');
+      expect(result.plan).toHaveLength(plan.length);
+      
+      const catchUps = result.plan.filter(a => a.isCatchUpDay);
+      expect(catchUps).toHaveLength(2);
+      expect(catchUps.every(a => a.date > lastDate)).toBe(true);
+      expect(catchUps.map(a => a.fromAyah)).toEqual(missed.map(a => a.fromAyah));
+    });
+    
+    it('should put catch-up days on non-reading weekdays', () => {
+      const weekdayGoal: UserGoal = {
+        ...everyDayGoal,
+        startDate: new Date(2025, 0, 6), // Monday
+        daysOfWeek: [1, 2, 3, 4, 5],
+      };
+      const plan = generatePlan(weekdayGoal);
+      const missed = plan.slice(0, 1);
+      
+      const result = recalculatePlanWithCatchUp(
+        weekdayGoal,
+        plan,
+        missed,
+        'off-days',
+        new Date(2025, 0, 7),
+      );
+      
+      expect(result.strategy).toBe('off-days');
+      const catchUps = result.plan.filter(a => a.isCatchUpDay);
+      expect(catchUps).toHaveLength(1);
+      expect(catchUps[0].date.getDay()).toBe(6); // Saturday
+    });
+    
+    it('should reject strategies that would pass the deadline', () => {
+      const plan = generatePlan(everyDayGoal);
+      const goal: UserGoal = {
+        ...everyDayGoal,
+        deadline: plan[plan.length - 1].date,
+      };
+      
+      const result = recalculatePlanWithCatchUp(
+        goal,
+        plan,
+        plan.slice(0, 2),
+        'append-days',
+        new Date(2025, 0, 3),
+      );
+      
+      expect(result.strategy).toBeNull();
+      expect(result.meetsDeadline).toBe(false);
+      expect(result.plan).toBe(plan);
+    });
+    
+    it('should fall back to the next strategy that meets the deadline', () => {
+      const plan = generatePlan(everyDayGoal);
+      const afterPlan = new Date(plan[plan.length - 1].date);
+      afterPlan.setDate(afterPlan.getDate() + 1);
+      
+      const result = recalculatePlanWithCatchUp(
+        everyDayGoal,
+        plan,
+        plan.slice(-2),
+        undefined,
+        afterPlan,
+      );
+      
+      // No remaining days to spread over and no off days, so days are appended
+      expect(result.strategy).toBe('append-days');
+      expect(result.meetsDeadline).toBe(true);
+    });
+    
+    it('should report when no strategy can meet the deadline', () => {
+      const plan = generatePlan(everyDayGoal);
+      const lastDate = plan[plan.length - 1].date;
+      const goal: UserGoal = { ...everyDayGoal, deadline: lastDate };
+      const afterPlan = new Date(lastDate);
+      afterPlan.setDate(afterPlan.getDate() + 1);
+      
+      const result = recalculatePlanWithCatchUp(goal, plan, plan.slice(-2), undefined, afterPlan);
+      
+      expect(result.strategy).toBeNull();
+      expect(result.meetsDeadline).toBe(false);
+      expect(result.plan).toBe(plan);
+    });
+  });
+  
+  describe('partial progress', () => {
+    const buildAssignment = (overrides: Partial<DailyAssignment>): DailyAssignment => ({
+      date: new Date('2025-01-01'),
+      fromAyah: ref('2:1'),
+      toAyah: ref('2:10'),
+      fromPage: 2,
+      toPage: 3,
+      completed: false,
+      isCatchUpDay: false,
+      ...overrides,
+    });
+    
+    it('should report the fraction of ayahs read', () => {
+      expect(getAssignmentProgress(buildAssignment({}))).toBe(0);
+      expect(getAssignmentProgress(buildAssignment({ readUpTo: ref('2:4') }))).toBe(0.4);
+      expect(getAssignmentProgress(buildAssignment({ completed: true }))).toBe(1);
+    });
+    
+    it('should count partial progress across surahs by ayah', () => {
+      const assignment = buildAssignment({ fromAyah: ref('1:5'), toAyah: ref('2:5'), readUpTo: ref('1:7') });
+      
+      // 1:5-1:7 is 3 of the 8 ayahs from 1:5 to 2:5
+      expect(getAssignmentProgress(assignment)).toBe(3 / 8);
+    });
+    
+    it('should roll leftover ayahs of a past day into the next day', () => {
+      const plan = [
+        buildAssignment({ readUpTo: ref('2:4') }),
+        buildAssignment({ date: new Date('2025-01-02'), fromAyah: ref('2:11'), toAyah: ref('2:20') }),
+      ];
+      
+      const rolled = rollOverLeftovers(plan, new Date('2025-01-02'));
+      
+      expect(rolled[0]).toMatchObject({ toAyah: ref('2:4'), completed: true, readUpTo: undefined });
+      expect(rolled[1]).toMatchObject({ fromAyah: ref('2:5'), toAyah: ref('2:20'), fromPage: 2 });
+    });
+    
+    it('should leave today\'s partial reading and completed next days alone', () => {
+      const plan = [
+        buildAssignment({ readUpTo: ref('2:4') }),
+        buildAssignment({
+          date: new Date('2025-01-02'),
+          fromAyah: ref('2:11'),
+          toAyah: ref('2:20'),
+          readUpTo: ref('2:15'),
+        }),
+        buildAssignment({ date: new Date('2025-01-03'), fromAyah: ref('2:21'), toAyah: ref('2:30') }),
+      ];
+      plan[1].completed = true;
+      
+      const rolled = rollOverLeftovers(plan, new Date('2025-01-01'));
+      expect(rolled).toEqual(plan);
+      
+      const afterCompletedDay = rollOverLeftovers(plan, new Date('2025-01-03'));
+      expect(afterCompletedDay[0]).toEqual(plan[0]);
+    });
+    
+    it('should schedule leftovers on their own when a catch-up range is read next', () => {
+      const { plan } = buildCatchUpPlan();
+      const [own, catchUp] = plan.filter(a => a.date.getTime() === new Date(2025, 0, 3).getTime());
+      const partial = plan.map(a => (a === own ? { ...a, readUpTo: own.fromAyah } : a));
+      
+      const rolled = rollOverLeftovers(partial, new Date(2025, 0, 4));
+      
+      expect(rolled).toContainEqual(catchUp);
+      expect(rolled).toContainEqual({ ...own, toAyah: own.fromAyah, completed: true, readUpTo: undefined });
+      expect(rolled).toContainEqual({
+        date: new Date(2025, 0, 4),
+        fromAyah: own.fromAyah + 1,
+        toAyah: own.toAyah,
+        fromPage: own.fromPage,
+        toPage: own.toPage,
+        completed: false,
+        isCatchUpDay: true,
+      });
+      expect(rolled).toHaveLength(plan.length + 1);
+      expect(listPlannedAyahs(rolled)).toEqual(listPlannedAyahs(plan));
+    });
+  });
+  
+  describe('rebalanceAfterReadingAhead', () => {
+    const goal: UserGoal = {
+      id: 'test-ahead-1',
+      target: 'specific-juz',
+      targetValue: 30,
+      unit: 'pages',
+      dailyAmount: 2,
+      startDate: new Date('2025-01-01'),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    const buildHistory = () => {
+      const plan = generatePlan(goal);
+      plan[0].completed = true;
+      return plan;
+    };
+    
+    it('should keep history and finish earlier at the same daily load', () => {
+      const plan = buildHistory();
+      const today = plan[1].date;
+      
+      // Read through the end of the third day's pages on the second day
+      const rebalanced = rebalanceAfterReadingAhead(goal, plan, plan[2].toAyah, 'finish-earlier', today);
+      
+      expect(rebalanced[0]).toEqual(plan[0]);
+      expect(rebalanced[1]).toMatchObject({
+        date: today,
+        fromAyah: plan[1].fromAyah,
+        toAyah: plan[2].toAyah,
+        completed: true,
+      });
+      expect(rebalanced[2].fromAyah).toBe(plan[3].fromAyah);
+      expect(rebalanced[2].toPage - rebalanced[2].fromPage + 1).toBe(2);
+      expect(rebalanced).toHaveLength(plan.length - 1);
+      expect(rebalanced[rebalanced.length - 1].toAyah).toBe(ref('114:6'));
+    });
+    
+    it('should keep the finish date and lower the daily load', () => {
+      const plan = buildHistory();
+      const today = plan[1].date;
+      
+      const rebalanced = rebalanceAfterReadingAhead(goal, plan, plan[3].toAyah, 'lower-load', today);
+      const last = rebalanced[rebalanced.length - 1];
+      
+      expect(rebalanced[0]).toEqual(plan[0]);
+      expect(rebalanced[2].fromAyah).toBe(plan[4].fromAyah);
+      expect(last.date.getTime()).toBeLessThanOrEqual(plan[plan.length - 1].date.getTime());
+      expect(last.toAyah).toBe(ref('114:6'));
+      expect(rebalanced.slice(2).some(a => a.toPage === a.fromPage)).toBe(true);
+    });
+    
+    it('should leave the plan alone when not reading past today', () => {
+      const plan = buildHistory();
+      
+      expect(rebalanceAfterReadingAhead(goal, plan, plan[1].toAyah, 'finish-earlier', plan[1].date)).toBe(plan);
+    });
+    
+    it('should end the plan when the rest of the goal was read', () => {
+      const plan = buildHistory();
+      
+      const rebalanced = rebalanceAfterReadingAhead(goal, plan, ref('114:6'), 'finish-earlier', plan[1].date);
+      
+      expect(rebalanced).toHaveLength(2);
+      expect(rebalanced[1].toAyah).toBe(ref('114:6'));
+    });
+    
+    it('should keep catch-up reading and rebalance only the main range', () => {
+      const { goal: catchUpGoal, plan } = buildCatchUpPlan();
+      const today = new Date(2025, 0, 4);
+      const isMain = (a: DailyAssignment) => !a.isCatchUpDay;
+      const [own, next] = plan.filter(a => isMain(a) && a.date >= today);
+      
+      const rebalanced = rebalanceAfterReadingAhead(catchUpGoal, plan, next.toAyah, 'finish-earlier', today);
+      
+      expect(rebalanced.filter(a => a.date < today)).toEqual(plan.filter(a => a.date < today));
+      expect(rebalanced.filter(a => a.isCatchUpDay)).toEqual(plan.filter(a => a.isCatchUpDay));
+      expect(rebalanced.filter(isMain).find(a => a.date.getTime() === today.getTime())).toMatchObject({
+        fromAyah: own.fromAyah,
+        toAyah: next.toAyah,
+        completed: true,
+      });
+      expect(rebalanced.every(a => a.fromAyah <= a.toAyah)).toBe(true);
+      expect(listPlannedAyahs(rebalanced)).toEqual(listPlannedAyahs(plan));
+      expect(rebalanced.filter(isMain).pop()?.toAyah).toBe(ref('114:6'));
+    });
+  });
+  
+  describe('replanFromFirstUnread', () => {
+    const goal: UserGoal = {
+      id: 'test-revise-1',
+      target: 'specific-surah',
+      targetValue: 2,
+      unit: 'pages',
+      dailyAmount: 1,
+      startDate: new Date('2025-01-01'),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    /** The ayah after a reference */
+    const incrementRef = (ayahRef: QuranRef) => (ayahRef + 1) as QuranRef;
+    
+    const buildProgress = () => {
+      const plan = generatePlan(goal);
+      plan[0].completed = true;
+      plan[1].completed = true;
+      plan[2].readUpTo = incrementRef(plan[2].fromAyah);
+      return plan;
+    };
+    
+    it('should find the first unread ayah after a bookmark', () => {
+      const plan = buildProgress();
+      
+      expect(getFirstUnreadAyah(plan)).toBe(incrementRef(plan[2].readUpTo!));
+      expect(getFirstUnreadAyah(plan.map(a => ({ ...a, completed: true })))).toBeNull();
+    });
+    
+    it('should keep completed days and replan the rest with the revised settings', () => {
+      const plan = buildProgress();
+      const revised: UserGoal = { ...goal, dailyAmount: 5, daysOfWeek: [5, 6] };
+      
+      const replanned = replanFromFirstUnread(revised, plan, new Date('2025-01-03'));
+      
+      expect(replanned[0]).toEqual(plan[0]);
+      expect(replanned[1]).toEqual(plan[1]);
+      expect(replanned[2]).toMatchObject({
+        fromAyah: plan[2].fromAyah,
+        toAyah: plan[2].readUpTo,
+        completed: true,
+      });
+      
+      const remainder = replanned.slice(3);
+      expect(remainder[0].fromAyah).toBe(getFirstUnreadAyah(plan));
+      expect(remainder[0].date.getTime()).toBeGreaterThan(plan[2].date.getTime());
+      expect(remainder.every(a => [5, 6].includes(a.date.getDay()))).toBe(true);
+      expect(remainder.every(a => !a.completed)).toBe(true);
+      expect(remainder[remainder.length - 1].toAyah).toBe(ref('2:286'));
+    });
+    
+    it('should not plan ayahs again that were read after a missed day', () => {
+      const plan = generatePlan(goal);
+      plan[2].completed = true;
+      
+      const replanned = replanFromFirstUnread(goal, plan, new Date('2025-01-03'));
+      const remainder = replanned.slice(1);
+      
+      expect(replanned[0]).toEqual(plan[2]);
+      expect(remainder[0]).toMatchObject({ fromAyah: plan[0].fromAyah, toAyah: plan[0].toAyah });
+      expect(remainder[1]).toMatchObject({ fromAyah: plan[1].fromAyah, toAyah: plan[1].toAyah });
+      expect(remainder[0].date.getTime()).toBeGreaterThan(plan[2].date.getTime());
+      expect(remainder[2].fromAyah).toBe(plan[3].fromAyah);
+      expect(listPlannedAyahs(replanned)).toEqual(listPlannedAyahs(plan));
+    });
+    
+    it('should fit the unread ranges around read ones within the deadline', () => {
+      const deadlineGoal: UserGoal = { ...goal, planningMode: 'deadline', deadline: new Date('2025-01-31') };
+      const plan = generatePlan(deadlineGoal);
+      plan[2].completed = true;
+      
+      const replanned = replanFromFirstUnread(deadlineGoal, plan, new Date('2025-01-03'));
+      
+      expect(listPlannedAyahs(replanned)).toEqual(listPlannedAyahs(plan));
+      expect(replanned[replanned.length - 1].date.getTime()).toBeLessThanOrEqual(
+        deadlineGoal.deadline!.getTime(),
+      );
+    });
+  });
+  
+  describe('pause periods', () => {
+    const goal: UserGoal = {
+      id: 'test-pause-1',
+      target: 'specific-juz',
+      targetValue: 30,
+      unit: 'pages',
+      dailyAmount: 1,
+      startDate: new Date('2025-01-01'),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    const pausePeriods = [
+      { startDate: new Date('2025-01-03'), endDate: new Date('2025-01-05') },
+    ];
+    
+    it('should skip paused days when generating a plan', () => {
+      const plan = generatePlan({ ...goal, pausePeriods });
+      const unpaused = generatePlan(goal);
+      
+      expect(plan).toHaveLength(unpaused.length);
+      expect(plan.some(a => isPausedDay({ ...goal, pausePeriods }, a.date))).toBe(false);
+      expect(plan[2].date).toEqual(new Date(2025, 0, 6));
+      expect(plan[2].fromAyah).toBe(unpaused[2].fromAyah);
+    });
+    
+    it('should push unread assignments past a new pause', () => {
+      const plan = generatePlan(goal);
+      plan[0].completed = true;
+      
+      const shifted = shiftPlanAroundPauses({ ...goal, pausePeriods }, plan);
+      
+      expect(shifted[0]).toEqual(plan[0]);
+      expect(shifted[1]).toEqual(plan[1]);
+      expect(shifted[2]).toMatchObject({
+        date: new Date(2025, 0, 6),
+        fromAyah: plan[2].fromAyah,
+      });
+      expect(shifted[shifted.length - 1].toAyah).toBe(plan[plan.length - 1].toAyah);
+      expect(shifted.map(a => a.fromAyah)).toEqual(plan.map(a => a.fromAyah));
+    });
+    
+    it('should leave a plan without paused assignments alone', () => {
+      const plan = generatePlan(goal);
+      
+      expect(shiftPlanAroundPauses(goal, plan)).toEqual(plan);
+    });
+    
+    it('should move catch-up reading together with the day it shares', () => {
+      const { goal: catchUpGoal, plan } = buildCatchUpPlan();
+      const pause = { startDate: new Date(2025, 0, 4), endDate: new Date(2025, 0, 5) };
+      const dayOf = (a: DailyAssignment) => a.date.getTime();
+      
+      const shifted = shiftPlanAroundPauses({ ...catchUpGoal, pausePeriods: [pause] }, plan);
+      
+      const lastDay = new Date(plan[plan.length - 1].date);
+      lastDay.setDate(lastDay.getDate() + 2);
+      expect(shifted[shifted.length - 1].date).toEqual(lastDay);
+      expect(new Set(shifted.map(dayOf)).size).toBe(new Set(plan.map(dayOf)).size);
+      expect(shifted.filter(a => dayOf(a) === new Date(2025, 0, 6).getTime())).toEqual(
+        plan
+          .filter(a => dayOf(a) === new Date(2025, 0, 4).getTime())
+          .map(a => ({ ...a, date: new Date(2025, 0, 6) })),
+      );
+    });
+    
+    it('should reject a pause that ends before it starts', () => {
+      const result = validateGoal({
+        ...goal,
+        pausePeriods: [{ startDate: new Date('2025-01-05'), endDate: new Date('2025-01-03') }],
+      });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Pause period must not end before it starts');
+    });
+  });
+  
+  describe('per-weekday daily amounts', () => {
+    const goal: UserGoal = {
+      id: 'test-weekday-1',
+      target: 'specific-surah',
+      targetValue: 2,
+      unit: 'pages',
+      dailyAmount: 1,
+      dailyAmountsByWeekday: { 5: 5, 6: 5, 0: 5 },
+      startDate: new Date('2025-01-01'), // Wednesday
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    it('should read each weekday\'s own amount', () => {
+      const plan = generatePlan(goal);
+      
+      plan.slice(0, -1).forEach(assignment => {
+        const pages = assignment.toPage - assignment.fromPage + 1;
+        expect(pages).toBe([0, 5, 6].includes(assignment.date.getDay()) ? 5 : 1);
+      });
+      expect(plan[plan.length - 1].toAyah).toBe(ref('2:286'));
+    });
+    
+    it('should work out the number of days from the mixed loads', () => {
+      const plan = generatePlan(goal);
+      const pace = calculateRequiredPace(goal);
+      
+      // Pages 2-49: a week covers 4 + 15 = 19 pages, so 48 pages need 2 weeks and 4 days
+      expect(plan).toHaveLength(18);
+      expect(pace.readingDays).toBe(18);
+    });
+    
+    it('should check mixed loads against the deadline', () => {
+      const deadline = new Date('2025-01-14');
+      
+      expect(calculateRequiredPace({ ...goal, deadline }).meetsDeadline).toBe(false);
+      expect(
+        calculateRequiredPace({ ...goal, deadline: new Date('2025-01-20') }).meetsDeadline,
+      ).toBe(true);
+    });
+    
+    it('should validate each weekday amount', () => {
+      const result = validateGoal({
+        ...goal,
+        dailyAmountsByWeekday: { 5: 0, 9: 2 },
+      });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Daily amount for Friday must be greater than 0');
+      expect(result.errors).toContain('"9" is not a weekday (0 = Sunday, 6 = Saturday)');
+    });
+  });
+  
+  describe('word and letter weighting', () => {
+    const goal: UserGoal = {
+      id: 'test-weighting-1',
+      target: 'whole-quran',
+      unit: 'pages',
+      dailyAmount: 20,
+      startDate: new Date('2025-01-01'),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    /** Letters read on each day of a plan */
+    const lettersPerDay = (plan: DailyAssignment[]): number[] => {
+      const letters = getAyahWeights('letters');
+      return plan.map(({ fromAyah, toAyah }) =>
+        getRefsInRange(fromAyah, toAyah).reduce((sum, ayahRef) => sum + letters[ayahRef], 0),
+      );
+    };
+    
+    /** Heaviest day as a multiple of the lightest, leaving out the short last day */
+    const spread = (loads: number[]): number =>
+      Math.max(...loads.slice(0, -1)) / Math.min(...loads.slice(0, -1));
+    
+    it('should cover the goal in whole, consecutive ayahs', () => {
+      for (const weighting of ['words', 'letters'] as const) {
+        const plan = generatePlan({ ...goal, weighting });
+        
+        expect(plan[0].fromAyah).toBe(ref('1:1'));
+        expect(plan[plan.length - 1].toAyah).toBe(ref('114:6'));
+        for (let i = 1; i < plan.length; i++) {
+          expect(plan[i].fromAyah).toBe(plan[i - 1].toAyah + 1);
+        }
+      }
+    });
+    
+    it('should keep the number of days the units need', () => {
+      const plan = generatePlan({ ...goal, weighting: 'letters' });
+      
+      expect(plan).toHaveLength(generatePlan(goal).length);
+      expect(plan.map(assignment => assignment.date)).toEqual(
+        generatePlan(goal).map(assignment => assignment.date),
+      );
+    });
+    
+    it('should even out letters read each day better than pages', () => {
+      const byPages = lettersPerDay(generatePlan(goal));
+      const byLetters = lettersPerDay(generatePlan({ ...goal, weighting: 'letters' }));
+      
+      expect(spread(byLetters)).toBeLessThan(spread(byPages));
+      expect(spread(byLetters)).toBeLessThan(1.05);
+    });
+    
+    it('should give the short last day only what is left', () => {
+      const loads = lettersPerDay(generatePlan({ ...goal, weighting: 'letters' }));
+      
+      // 604 pages at 20 a day leave 4 pages for day 31
+      expect(loads[loads.length - 1] / loads[0]).toBeCloseTo(4 / 20, 1);
+    });
+    
+    it('should follow each weekday\'s share of the units', () => {
+      const plan = generatePlan({
+        ...goal,
+        target: 'specific-juz',
+        targetValue: 30,
+        dailyAmount: 1,
+        dailyAmountsByWeekday: { 5: 3 },
+        weighting: 'words',
+      });
+      const words = getAyahWeights('words');
+      const wordsPerDay = plan.map(({ fromAyah, toAyah }) =>
+        getRefsInRange(fromAyah, toAyah).reduce((sum, ayahRef) => sum + words[ayahRef], 0),
+      );
+      
+      const friday = plan.findIndex(assignment => assignment.date.getDay() === 5);
+      expect(wordsPerDay[friday] / wordsPerDay[0]).toBeGreaterThan(2);
+    });
+    
+    it('should give each day at least one ayah when ayahs run short', () => {
+      const plan = generatePlan({
+        ...goal,
+        target: 'ayah-range',
+        targetRange: { fromAyah: ref('2:255'), toAyah: ref('2:257') },
+        unit: 'ayahs',
+        dailyAmount: 1,
+        weighting: 'letters',
+      });
+      
+      expect(plan.map(({ fromAyah, toAyah }) => [fromAyah, toAyah])).toEqual([
+        [ref('2:255'), ref('2:255')],
+        [ref('2:256'), ref('2:256')],
+        [ref('2:257'), ref('2:257')],
+      ]);
+    });
+  });
+  
+  describe('stopping points', () => {
+    const goal: UserGoal = {
+      id: 'test-stops-1',
+      target: 'whole-quran',
+      unit: 'pages',
+      dailyAmount: 20,
+      startDate: new Date('2025-01-01'),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      snapToStops: { boundaries: ['ruku', 'rub', 'surah'], tolerance: 5 },
+    };
+    
+    /** Whether a day ending at an ayah ends a ruku', rub' al-hizb or surah */
+    const endsPassage = (ayahRef: QuranRef): boolean => {
+      const current = getSurahAndAyah(ayahRef);
+      const next = getSurahAndAyah((ayahRef + 1) as QuranRef);
+      return (
+        current.surahId !== next.surahId ||
+        getRukuForAyah(current.surahId, current.ayahNumber) !== getRukuForAyah(next.surahId, next.ayahNumber) ||
+        getRubAlHizbForAyah(current.surahId, current.ayahNumber) !==
+          getRubAlHizbForAyah(next.surahId, next.ayahNumber)
+      );
+    };
+    
+    it('should move day ends to stopping points within the tolerance', () => {
+      const even = generatePlan({ ...goal, snapToStops: undefined });
+      const plan = generatePlan(goal);
+      
+      expect(plan.some(assignment => assignment.snapShift!.end !== 0)).toBe(true);
+      plan.slice(0, -1).forEach((assignment, i) => {
+        const shift = assignment.snapShift!.end;
+        
+        expect(Math.abs(shift)).toBeLessThanOrEqual(5);
+        expect(assignment.toAyah).toBe(even[i].toAyah + shift);
+        expect(plan[i + 1].snapShift!.start).toBe(shift);
+        if (shift !== 0) {
+          expect(endsPassage(assignment.toAyah)).toBe(true);
+        }
+      });
+    });
+    
+    it('should keep the days, dates and overall range', () => {
+      const even = generatePlan({ ...goal, snapToStops: undefined });
+      const plan = generatePlan(goal);
+      
+      expect(plan.map(assignment => assignment.date)).toEqual(even.map(assignment => assignment.date));
+      expect(plan[0].fromAyah).toBe(ref('1:1'));
+      expect(plan[plan.length - 1].toAyah).toBe(ref('114:6'));
+      for (let i = 1; i < plan.length; i++) {
+        expect(plan[i].fromAyah).toBe(plan[i - 1].toAyah + 1);
+      }
+    });
+    
+    it('should update the pages of moved boundaries', () => {
+      const plan = generatePlan(goal);
+      const moved = plan.findIndex(assignment => assignment.snapShift!.end !== 0);
+      
+      expect(plan[moved].toPage).toBe(getPageOfRef(plan[moved].toAyah));
+      expect(plan[moved + 1].fromPage).toBe(getPageOfRef(plan[moved + 1].fromAyah));
+    });
+    
+    it('should leave the even split alone with no tolerance', () => {
+      const even = generatePlan({ ...goal, snapToStops: undefined });
+      const plan = generatePlan({ ...goal, snapToStops: { boundaries: ['ruku'], tolerance: 0 } });
+      
+      expect(plan.map(({ fromAyah, toAyah }) => [fromAyah, toAyah])).toEqual(
+        even.map(({ fromAyah, toAyah }) => [fromAyah, toAyah]),
+      );
+      expect(plan.every(({ snapShift }) => snapShift!.start === 0 && snapShift!.end === 0)).toBe(true);
+    });
+    
+    it('should keep at least one ayah in every day', () => {
+      const plan = generatePlan({
+        ...goal,
+        target: 'specific-surah',
+        targetValue: 112,
+        unit: 'ayahs',
+        dailyAmount: 1,
+        snapToStops: { boundaries: ['surah'], tolerance: 10 },
+      });
+      
+      expect(plan).toHaveLength(4);
+      expect(plan.every(({ fromAyah, toAyah }) => fromAyah === toAyah)).toBe(true);
+    });
+    
+    it('should only snap to the chosen boundaries', () => {
+      const plan = generatePlan({ ...goal, snapToStops: { boundaries: ['surah'], tolerance: 3 } });
+      
+      plan.slice(0, -1).forEach(assignment => {
+        if (assignment.snapShift!.end !== 0) {
+          const { surahId, ayahNumber } = getSurahAndAyah(assignment.toAyah);
+          expect(ayahNumber).toBe(getSurahById(surahId)?.ayahCount);
+        }
+      });
+    });
+    
+    it('should validate the stopping point options', () => {
+      const result = validateGoal({ ...goal, snapToStops: { boundaries: [], tolerance: -1 } });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('At least one kind of stopping point must be selected');
+      expect(result.errors).toContain('Stopping point tolerance must be 0 or more ayahs');
+    });
+  });
+  
+  describe('memorization goals', () => {
+    const goal: UserGoal = {
+      id: 'test-hifz-1',
+      target: 'specific-surah',
+      targetValue: 67,
+      mode: 'memorization',
+      unit: 'half-pages',
+      dailyAmount: 1,
+      startDate: new Date('2025-01-01'),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    it('should memorize half a page a day without gaps', () => {
+      const plan = generatePlan(goal);
+      
+      expect(plan.length).toBeGreaterThan(0);
+      expect(plan[0].fromAyah).toBe(ref('67:1'));
+      expect(plan[plan.length - 1].toAyah).toBe(ref('67:30'));
+      
+      for (let i = 1; i < plan.length; i++) {
+        expect(plan[i].fromAyah).toBe(plan[i - 1].toAyah + 1);
+        // Each half-page stays on a single page
+        expect(plan[i].fromPage).toBe(plan[i].toPage);
+      }
+    });
+    
+    it('should split a page into two half-pages', () => {
+      const plan = generatePlan(goal);
+      const pages = new Set(plan.map(assignment => assignment.fromPage));
+      
+      expect(plan.length).toBe(pages.size * 2);
+    });
+    
+    it('should split an assignment into its memorization units', () => {
+      expect(splitIntoMemorizationUnits('ayahs', ref('67:1'), ref('67:3'))).toEqual([
+        { fromAyah: ref('67:1'), toAyah: ref('67:1') },
+        { fromAyah: ref('67:2'), toAyah: ref('67:2') },
+        { fromAyah: ref('67:3'), toAyah: ref('67:3') },
+      ]);
+      
+      const halves = splitIntoMemorizationUnits('half-pages', ref('67:1'), ref('67:30'));
+      expect(halves[0].fromAyah).toBe(ref('67:1'));
+      expect(halves[halves.length - 1].toAyah).toBe(ref('67:30'));
+      expect(halves).toHaveLength(generatePlan(goal).length);
+    });
+    
+    it('should only allow ayahs, pages or half-pages', () => {
+      const result = validateGoal({ ...goal, unit: 'juz' });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Memorization goals must use ayahs, pages or half-pages');
+    });
+  });
+  
+  describe('revision rotations', () => {
+    const rotation: RevisionRotation = {
+      unit: 'juz',
+      memorized: [30, 1, 2, 3, 29],
+      cycleDays: 3,
+      startDate: new Date(2025, 0, 1),
+    };
+    
+    const pagesOf = (assignments: DailyAssignment[]) =>
+      assignments.reduce((sum, a) => sum + a.toPage - a.fromPage + 1, 0);
+    
+    it('should revise every memorized juz once per cycle, on juz boundaries', () => {
+      const plan = generateRevisionPlan(rotation);
+      const juzStarts = [1, 2, 3, 29, 30].map(id => ref(getJuzById(id)?.startAyah));
+      const juzEnds = [1, 2, 3, 29, 30].map(id => ref(getJuzById(id)?.endAyah));
+      
+      plan.forEach(assignment => {
+        expect(juzStarts).toContain(assignment.fromAyah);
+        expect(juzEnds).toContain(assignment.toAyah);
+      });
+      expect(plan[0].fromAyah).toBe(ref('1:1'));
+      expect(plan[plan.length - 1].toAyah).toBe(ref('114:6'));
+      expect(plan[plan.length - 1].date).toEqual(new Date(2025, 0, 3));
+    });
+    
+    it('should balance the pages revised each day', () => {
+      const plan = generateRevisionPlan(rotation);
+      const days = [1, 2, 3].map(day =>
+        pagesOf(plan.filter(a => a.date.getDate() === day)),
+      );
+      
+      // 5 juz of about 20 pages over 3 days: no day needs more than 2 juz
+      expect(Math.max(...days)).toBeLessThanOrEqual(44);
+      expect(days.reduce((sum, pages) => sum + pages, 0)).toBe(pagesOf(plan));
+    });
+    
+    it('should merge adjacent juz revised on the same day', () => {
+      const plan = generateRevisionPlan({ ...rotation, memorized: [1, 2], cycleDays: 1 });
+      
+      expect(plan).toHaveLength(1);
+      expect(plan[0].fromAyah).toBe(ref('1:1'));
+      expect(plan[0].toAyah).toBe(ref(getJuzById(2)?.endAyah));
+    });
+    
+    it('should restart the rotation when a cycle ends', () => {
+      const firstCycle = generateRevisionPlan(rotation);
+      const twoCycles = generateRevisionPlan(rotation, 2);
+      
+      expect(twoCycles).toHaveLength(firstCycle.length * 2);
+      expect(getRevisionAssignments(rotation, new Date(2025, 0, 4))[0].fromAyah).toBe(ref('1:1'));
+      expect(
+        getRevisionAssignments(rotation, new Date(2025, 0, 33)).map(a => a.fromAyah),
+      ).toEqual(
+        firstCycle.filter(a => a.date.getDate() === 3).map(a => a.fromAyah),
+      );
+      expect(getRevisionAssignments(rotation, new Date(2024, 11, 31))).toEqual([]);
+    });
+    
+    it('should spread a few surahs over a longer cycle', () => {
+      const plan = generateRevisionPlan({
+        unit: 'surah',
+        memorized: [112, 113, 114],
+        cycleDays: 6,
+        startDate: new Date(2025, 0, 1),
+      });
+      
+      expect(plan.map(a => a.fromAyah)).toEqual([ref('112:1'), ref('113:1'), ref('114:1')]);
+      expect(plan.map(a => a.date.getDate())).toEqual([1, 3, 5]);
+    });
+    
+    it('should validate the rotation', () => {
+      const result = validateRevisionRotation({ ...rotation, memorized: [31], cycleDays: 0 });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Juz number must be between 1 and 30');
+      expect(result.errors).toContain('Cycle length must be at least 1 day');
+    });
+  });
 });
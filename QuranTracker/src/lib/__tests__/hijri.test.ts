@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for the Hijri Calendar
+ * 
+ * These tests verify tabular Hijri conversion, day offsets and Hijri goal dates.
+ */
+
+import {
+  toHijri,
+  fromHijri,
+  isHijriLeapYear,
+  getHijriMonthLength,
+  getHijriMonthRange,
+  getNextHijriMonthStart,
+  isValidHijriDate,
+  formatHijriDate,
+  applyHijriDates,
+} from '../hijri';
+import { validateGoal } from '../goalCalculator';
+import { UserGoal } from '@/types';
+
+describe('Hijri Calendar', () => {
+  describe('toHijri', () => {
+    it('should convert known dates', () => {
+      expect(toHijri(new Date(2025, 2, 1))).toEqual({ year: 1446, month: 9, day: 1 });
+      expect(toHijri(new Date(2025, 2, 30))).toEqual({ year: 1446, month: 9, day: 30 });
+      // The civil epoch, 16 July 622 in the Julian calendar
+      expect(toHijri(new Date(622, 6, 19))).toEqual({ year: 1, month: 1, day: 1 });
+    });
+    
+    it('should apply a day offset', () => {
+      // The calculation puts 1 Muharram 1446 a day after it began locally
+      expect(toHijri(new Date(2024, 6, 7))).toEqual({ year: 1445, month: 12, day: 30 });
+      expect(toHijri(new Date(2024, 6, 7), 1)).toEqual({ year: 1446, month: 1, day: 1 });
+      expect(toHijri(new Date(2025, 2, 1), -1)).toEqual({ year: 1446, month: 8, day: 29 });
+    });
+  });
+  
+  describe('fromHijri', () => {
+    it('should round-trip every day across a full 30-year cycle', () => {
+      const date = new Date(2000, 0, 1);
+      
+      for (let i = 0; i < 30 * 355; i++) {
+        const hijri = toHijri(date);
+        expect(isValidHijriDate(hijri)).toBe(true);
+        expect(fromHijri(hijri)).toEqual(date);
+        date.setDate(date.getDate() + 1);
+      }
+    });
+    
+    it('should honor the offset in reverse', () => {
+      expect(fromHijri({ year: 1446, month: 1, day: 1 }, 1)).toEqual(new Date(2024, 6, 7));
+    });
+  });
+  
+  describe('calendar rules', () => {
+    it('should have 11 leap years in each 30-year cycle', () => {
+      const leapYears = Array.from({ length: 30 }, (_, i) => i + 1).filter(isHijriLeapYear);
+      expect(leapYears).toEqual([2, 5, 7, 10, 13, 16, 18, 21, 24, 26, 29]);
+    });
+    
+    it('should alternate 30 and 29 day months', () => {
+      expect(getHijriMonthLength(1446, 1)).toBe(30);
+      expect(getHijriMonthLength(1446, 2)).toBe(29);
+      expect(getHijriMonthLength(1446, 9)).toBe(30);
+      expect(getHijriMonthLength(1445, 12)).toBe(30);
+      expect(getHijriMonthLength(1446, 12)).toBe(29);
+    });
+    
+    it('should reject dates that do not exist', () => {
+      expect(isValidHijriDate({ year: 1446, month: 13, day: 1 })).toBe(false);
+      expect(isValidHijriDate({ year: 1446, month: 2, day: 30 })).toBe(false);
+      expect(isValidHijriDate({ year: 1446, month: 9, day: 1.5 })).toBe(false);
+    });
+    
+    it('should give the Gregorian range of Ramadan', () => {
+      expect(getHijriMonthRange(1446, 9)).toEqual({
+        startDate: new Date(2025, 2, 1),
+        endDate: new Date(2025, 2, 30),
+      });
+    });
+    
+    it('should find the next first day of a month', () => {
+      expect(getNextHijriMonthStart(new Date(2025, 1, 10), 9)).toEqual(new Date(2025, 2, 1));
+      expect(getNextHijriMonthStart(new Date(2025, 2, 1), 9)).toEqual(new Date(2025, 2, 1));
+      expect(getNextHijriMonthStart(new Date(2025, 2, 2), 9)).toEqual(fromHijri({ year: 1447, month: 9, day: 1 }));
+      expect(getNextHijriMonthStart(new Date(2025, 1, 10), 9, 1)).toEqual(new Date(2025, 1, 28));
+    });
+  });
+  
+  it('should format Hijri dates', () => {
+    expect(formatHijriDate({ year: 1446, month: 9, day: 27 })).toBe('27 Ramadan 1446 AH');
+  });
+  
+  describe('Hijri goal dates', () => {
+    const goal: UserGoal = {
+      id: 'test-hijri-1',
+      target: 'whole-quran',
+      unit: 'pages',
+      dailyAmount: 1,
+      planningMode: 'deadline',
+      startDate: new Date(2025, 0, 1),
+      hijriStartDate: { year: 1446, month: 9, day: 1 },
+      hijriDeadline: { year: 1446, month: 9, day: 27 },
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    
+    it('should derive the start date and deadline', () => {
+      const resolved = applyHijriDates(goal);
+      
+      expect(resolved.startDate).toEqual(new Date(2025, 2, 1));
+      expect(resolved.deadline).toEqual(new Date(2025, 2, 27));
+      expect(applyHijriDates(goal, 1).deadline).toEqual(new Date(2025, 2, 26));
+    });
+    
+    it('should leave goals without Hijri dates alone', () => {
+      const gregorian = { ...goal, hijriStartDate: undefined, hijriDeadline: undefined };
+      expect(applyHijriDates(gregorian)).toBe(gregorian);
+    });
+    
+    it('should reject invalid Hijri dates', () => {
+      const result = validateGoal({ ...goal, hijriDeadline: { year: 1446, month: 9, day: 31 } });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Invalid Hijri deadline');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Plan Templates
+ * 
+ * These tests verify that each built-in template builds valid goals with the expected dates.
+ */
+
+import {
+  PLAN_TEMPLATES,
+  getTemplateById,
+  resolveTemplateValues,
+  buildGoalsFromTemplate,
+  getTemplateStartDate,
+} from '../planTemplates';
+import { generatePlan, validateGoal } from '../goalCalculator';
+import { formatQuranRef } from '../quranRef';
+
+describe('Plan Templates', () => {
+  const startDate = new Date(2025, 2, 1);
+  
+  it('should build valid goals that finish by their deadlines for every template', () => {
+    for (const template of PLAN_TEMPLATES) {
+      const goals = buildGoalsFromTemplate(template, startDate);
+      
+      expect(goals.length).toBeGreaterThan(0);
+      for (const goal of goals) {
+        expect(validateGoal(goal)).toEqual({ valid: true, errors: [] });
+        
+        const plan = generatePlan(goal);
+        expect(plan[plan.length - 1].date.getTime()).toBeLessThanOrEqual(goal.deadline!.getTime());
+      }
+    }
+  });
+  
+  it('should plan a Ramadan khatm over 30 days', () => {
+    const [goal] = buildGoalsFromTemplate(getTemplateById('ramadan-khatm')!, startDate);
+    const plan = generatePlan(goal);
+    
+    expect(goal.target).toBe('whole-quran');
+    expect(plan).toHaveLength(30);
+    expect(plan[29].date).toEqual(new Date(2025, 2, 30));
+    expect(plan[29].toPage).toBe(604);
+  });
+  
+  it('should finish a yearly khatm the day before the anniversary', () => {
+    const [goal] = buildGoalsFromTemplate(getTemplateById('yearly-khatm')!, startDate);
+    
+    expect(goal.deadline).toEqual(new Date(2026, 1, 28));
+  });
+  
+  it('should read Juz \'Amma over the chosen number of days', () => {
+    const [goal] = buildGoalsFromTemplate(getTemplateById('juz-amma')!, startDate, { days: 7 });
+    const plan = generatePlan(goal);
+    
+    expect(goal).toMatchObject({ target: 'specific-juz', targetValue: 30 });
+    expect(plan).toHaveLength(7);
+    expect(formatQuranRef(plan[0].fromAyah)).toBe('78:1');
+  });
+  
+  it('should split two Ramadan khatms back to back', () => {
+    const goals = buildGoalsFromTemplate(getTemplateById('ramadan-double-khatm')!, startDate, {
+      days: 29,
+    });
+    
+    expect(goals).toHaveLength(2);
+    expect(goals[0].id).not.toBe(goals[1].id);
+    expect(goals[0].deadline).toEqual(new Date(2025, 2, 15));
+    expect(goals[1].startDate).toEqual(new Date(2025, 2, 16));
+    expect(goals[1].deadline).toEqual(new Date(2025, 2, 29));
+  });
+  
+  it('should fill in defaults and clamp parameter values', () => {
+    const template = getTemplateById('ramadan-khatm')!;
+    
+    expect(resolveTemplateValues(template)).toEqual({ days: 30 });
+    expect(resolveTemplateValues(template, { days: 45 })).toEqual({ days: 30 });
+    expect(resolveTemplateValues(template, { days: NaN })).toEqual({ days: 30 });
+    expect(resolveTemplateValues(template, { days: 0 })).toEqual({ days: 1 });
+  });
+  
+  it('should start Ramadan templates on the next 1 Ramadan and others today', () => {
+    const today = new Date(2025, 1, 10, 15, 30);
+    
+    expect(getTemplateStartDate(getTemplateById('ramadan-khatm')!, today)).toEqual(new Date(2025, 2, 1));
+    expect(getTemplateStartDate(getTemplateById('ramadan-double-khatm')!, today)).toEqual(
+      new Date(2025, 2, 1),
+    );
+    expect(getTemplateStartDate(getTemplateById('juz-amma')!, today)).toEqual(new Date(2025, 1, 10));
+  });
+  
+  it('should return null for unknown templates', () => {
+    expect(getTemplateById('unknown')).toBeNull();
+  });
+});
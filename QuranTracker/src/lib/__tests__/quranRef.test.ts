@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for Quran References
+ * 
+ * These tests verify parsing, formatting, arithmetic and lookups of ayah references.
+ */
+
+import {
+  TOTAL_AYAHS,
+  FIRST_REF,
+  LAST_REF,
+  isQuranRef,
+  toQuranRef,
+  quranRef,
+  parseQuranRef,
+  formatQuranRef,
+  getSurahAndAyah,
+  compareRefs,
+  offsetRef,
+  ayahDistance,
+  maxRef,
+  minRef,
+  getPageOfRef,
+  getJuzOfRef,
+  getSurahOfRef,
+  getRefsInRange,
+} from '../quranRef';
+import { QuranRef } from '@/types';
+
+const ref = (value: string) => parseQuranRef(value) as QuranRef;
+
+describe('Quran References', () => {
+  describe('parsing and formatting', () => {
+    it('should parse "surah:ayah" strings to absolute ayah indexes', () => {
+      expect(parseQuranRef('1:1')).toBe(1);
+      expect(parseQuranRef('2:1')).toBe(8);
+      expect(parseQuranRef('2:255')).toBe(262);
+      expect(parseQuranRef('114:6')).toBe(TOTAL_AYAHS);
+    });
+    
+    it('should reject strings that are not real ayahs', () => {
+      expect(parseQuranRef('200:0')).toBeNull();
+      expect(parseQuranRef('1:8')).toBeNull();
+      expect(parseQuranRef('0:1')).toBeNull();
+      expect(parseQuranRef('2')).toBeNull();
+      expect(parseQuranRef('2:255a')).toBeNull();
+      expect(parseQuranRef('x')).toBeNull();
+    });
+    
+    it('should round-trip every ayah through its string form', () => {
+      for (const current of getRefsInRange(FIRST_REF, LAST_REF)) {
+        expect(parseQuranRef(formatQuranRef(current))).toBe(current);
+      }
+    });
+    
+    it('should build references from surah and ayah numbers', () => {
+      expect(quranRef(2, 255)).toBe(ref('2:255'));
+      expect(quranRef(9, 129)).toBe(ref('9:129'));
+      expect(quranRef(1, 8)).toBeNull();
+      expect(getSurahAndAyah(ref('18:110'))).toEqual({ surahId: 18, ayahNumber: 110 });
+    });
+    
+    it('should only accept whole indexes within the Quran', () => {
+      expect(isQuranRef(1)).toBe(true);
+      expect(isQuranRef(TOTAL_AYAHS)).toBe(true);
+      expect(isQuranRef(0)).toBe(false);
+      expect(isQuranRef(TOTAL_AYAHS + 1)).toBe(false);
+      expect(isQuranRef(2.5)).toBe(false);
+      expect(isQuranRef('2:255')).toBe(false);
+      expect(toQuranRef(-3)).toBeNull();
+    });
+  });
+  
+  describe('ordering and arithmetic', () => {
+    it('should sort references in reading order', () => {
+      const refs = [ref('114:6'), ref('2:10'), ref('1:7'), ref('2:2')];
+      
+      expect(refs.sort(compareRefs).map(formatQuranRef)).toEqual(['1:7', '2:2', '2:10', '114:6']);
+      expect(maxRef(ref('3:1'), ref('2:286'))).toBe(ref('3:1'));
+      expect(minRef(ref('3:1'), ref('2:286'))).toBe(ref('2:286'));
+    });
+    
+    it('should move across surah boundaries', () => {
+      expect(offsetRef(ref('1:7'), 1)).toBe(ref('2:1'));
+      expect(offsetRef(ref('2:1'), -1)).toBe(ref('1:7'));
+      expect(offsetRef(ref('2:286'), 5)).toBe(ref('3:5'));
+    });
+    
+    it('should not move past either end of the Quran', () => {
+      expect(offsetRef(LAST_REF, 1)).toBeNull();
+      expect(offsetRef(FIRST_REF, -1)).toBeNull();
+      expect(offsetRef(LAST_REF, 0)).toBe(LAST_REF);
+    });
+    
+    it('should measure the distance between references', () => {
+      expect(ayahDistance(ref('1:1'), ref('2:1'))).toBe(7);
+      expect(ayahDistance(ref('2:1'), ref('1:1'))).toBe(-7);
+      expect(ayahDistance(FIRST_REF, LAST_REF)).toBe(TOTAL_AYAHS - 1);
+    });
+    
+    it('should list every reference in a range', () => {
+      expect(getRefsInRange(ref('1:6'), ref('2:2')).map(formatQuranRef)).toEqual([
+        '1:6',
+        '1:7',
+        '2:1',
+        '2:2',
+      ]);
+      expect(getRefsInRange(ref('2:2'), ref('1:6'))).toEqual([]);
+    });
+  });
+  
+  describe('lookups', () => {
+    it('should find the page of a reference', () => {
+      expect(getPageOfRef(ref('1:1'))).toBe(1);
+      expect(getPageOfRef(ref('2:255'))).toBe(42);
+      expect(getPageOfRef(LAST_REF)).toBe(604);
+    });
+    
+    it('should find the juz of a reference', () => {
+      expect(getJuzOfRef(ref('2:141'))).toBe(1);
+      expect(getJuzOfRef(ref('2:142'))).toBe(2);
+      expect(getJuzOfRef(ref('78:1'))).toBe(30);
+    });
+    
+    it('should find the surah of a reference', () => {
+      expect(getSurahOfRef(ref('1:7'))).toBe(1);
+      expect(getSurahOfRef(ref('2:1'))).toBe(2);
+      expect(getSurahOfRef(LAST_REF)).toBe(114);
+    });
+  });
+});
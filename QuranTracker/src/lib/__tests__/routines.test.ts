@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Recurring Reading Routines
+ * 
+ * These tests verify routine scheduling, assignments and streaks.
+ */
+
+import {
+  ROUTINE_PRESETS,
+  toDayKey,
+  isRoutineDay,
+  getRoutineAssignments,
+  calculateRoutineStreaks,
+  validateRoutine,
+} from '../routines';
+import { quranRef } from '../quranRef';
+import { ReadingRoutine } from '@/types';
+
+describe('Reading Routines', () => {
+  const kahf: ReadingRoutine = {
+    id: 'routine-kahf',
+    name: 'Al-Kahf on Fridays',
+    surahIds: [18],
+    daysOfWeek: [5],
+    startDate: new Date(2025, 0, 1), // Wednesday
+  };
+  
+  const nightly: ReadingRoutine = {
+    id: 'routine-nightly',
+    name: 'As-Sajdah and Al-Mulk nightly',
+    surahIds: [32, 67],
+    daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    startDate: new Date(2025, 0, 1),
+  };
+  
+  it('should build local day keys', () => {
+    expect(toDayKey(new Date(2025, 0, 3, 22, 30))).toBe('2025-01-03');
+  });
+  
+  it('should only schedule matching days on or after the start date', () => {
+    expect(isRoutineDay(kahf, new Date(2025, 0, 3))).toBe(true);
+    expect(isRoutineDay(kahf, new Date(2025, 0, 4))).toBe(false);
+    expect(isRoutineDay(kahf, new Date(2024, 11, 27))).toBe(false);
+    
+    // Far in the future: routines have no end
+    expect(isRoutineDay(kahf, new Date(2040, 0, 6))).toBe(true);
+  });
+  
+  it('should produce one assignment per surah', () => {
+    const assignments = getRoutineAssignments(nightly, new Date(2025, 0, 2, 21), ['2025-01-02']);
+    
+    expect(assignments).toHaveLength(2);
+    expect(assignments[0]).toMatchObject({ fromAyah: quranRef(32, 1), toAyah: quranRef(32, 30), completed: true });
+    expect(assignments[1]).toMatchObject({ fromAyah: quranRef(67, 1), toAyah: quranRef(67, 30), completed: true });
+    expect(assignments[0].date).toEqual(new Date(2025, 0, 2));
+  });
+  
+  it('should produce nothing on other days', () => {
+    expect(getRoutineAssignments(kahf, new Date(2025, 0, 2))).toEqual([]);
+  });
+  
+  it('should count streaks over routine days only', () => {
+    const completedDays = ['2025-01-03', '2025-01-10', '2025-01-24', '2025-01-31'];
+    
+    // 17 Jan was missed, so the current streak restarts on 24 Jan
+    expect(calculateRoutineStreaks(kahf, completedDays, new Date(2025, 1, 6))).toEqual({
+      current: 2,
+      best: 2,
+    });
+  });
+  
+  it('should not break the current streak before today is over', () => {
+    const completedDays = ['2025-01-03', '2025-01-10'];
+    
+    expect(calculateRoutineStreaks(kahf, completedDays, new Date(2025, 0, 17, 9))).toEqual({
+      current: 2,
+      best: 2,
+    });
+    expect(calculateRoutineStreaks(kahf, completedDays, new Date(2025, 0, 18))).toEqual({
+      current: 0,
+      best: 2,
+    });
+  });
+  
+  it('should validate routines', () => {
+    expect(validateRoutine(kahf).valid).toBe(true);
+    expect(validateRoutine({ ...kahf, surahIds: [115], daysOfWeek: [] }).errors).toEqual([
+      'Surah number must be between 1 and 114',
+      'At least one day of the week must be selected',
+    ]);
+  });
+  
+  it('should offer valid presets', () => {
+    for (const preset of ROUTINE_PRESETS) {
+      expect(validateRoutine({ ...preset, id: 'preset', startDate: new Date() }).valid).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Spaced Repetition
+ * 
+ * These tests verify SM-2 scheduling of memorized portions.
+ */
+
+import {
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  createReviewItem,
+  gradeReview,
+  getDueReviews,
+} from '../spacedRepetition';
+import { parseQuranRef } from '../quranRef';
+import { QuranRef } from '@/types';
+
+const ref = (value: string) => parseQuranRef(value) as QuranRef;
+
+describe('Spaced Repetition', () => {
+  const memorizedOn = new Date(2025, 0, 1);
+  const item = createReviewItem({ fromAyah: ref('67:1'), toAyah: ref('67:5') }, memorizedOn);
+  
+  it('should first be due the day after memorizing', () => {
+    expect(item.dueDate).toEqual(new Date(2025, 0, 2));
+    expect(item.repetitions).toBe(0);
+    expect(item.easeFactor).toBe(DEFAULT_EASE_FACTOR);
+  });
+  
+  it('should lengthen the interval with each good review', () => {
+    const first = gradeReview(item, 4, new Date(2025, 0, 2));
+    const second = gradeReview(first, 4, new Date(2025, 0, 3));
+    const third = gradeReview(second, 4, new Date(2025, 0, 9));
+    
+    expect(first.interval).toBe(1);
+    expect(second.interval).toBe(6);
+    expect(third.interval).toBe(15);
+    expect(third.dueDate).toEqual(new Date(2025, 0, 24));
+    expect(third.lastReviewedAt).toEqual(new Date(2025, 0, 9));
+  });
+  
+  it('should adjust the ease factor by the grade', () => {
+    expect(gradeReview(item, 5).easeFactor).toBeCloseTo(2.6);
+    expect(gradeReview(item, 4).easeFactor).toBeCloseTo(2.5);
+    expect(gradeReview(item, 3).easeFactor).toBeCloseTo(2.36);
+  });
+  
+  it('should start the schedule over after a lapse', () => {
+    const reviewed = gradeReview(
+      gradeReview(gradeReview(item, 5, new Date(2025, 0, 2)), 5, new Date(2025, 0, 3)),
+      1,
+      new Date(2025, 0, 9),
+    );
+    
+    expect(reviewed.repetitions).toBe(0);
+    expect(reviewed.interval).toBe(1);
+    expect(reviewed.dueDate).toEqual(new Date(2025, 0, 10));
+  });
+  
+  it('should not let the ease factor drop below the minimum', () => {
+    let reviewed = item;
+    for (let i = 0; i < 10; i++) {
+      reviewed = gradeReview(reviewed, 0);
+    }
+    
+    expect(reviewed.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+  
+  it('should list due and overdue reviews, most overdue first', () => {
+    const later = createReviewItem({ fromAyah: ref('67:6'), toAyah: ref('67:10') }, new Date(2025, 0, 5));
+    const items = [later, item];
+    
+    expect(getDueReviews(items, new Date(2025, 0, 1))).toEqual([]);
+    expect(getDueReviews(items, new Date(2025, 0, 3, 18))).toEqual([item]);
+    expect(getDueReviews(items, new Date(2025, 0, 6))).toEqual([item, later]);
+  });
+});
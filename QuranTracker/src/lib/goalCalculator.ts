@@ -5,56 +5,205 @@
  * This is the core business logic of the application.
  */
 
-import { UserGoal, DailyAssignment } from '@/types';
 import {
-  getPageCount,
+  UserGoal,
+  AyahRange,
+  DailyAssignment,
+  CatchUpStrategy,
+  CatchUpResult,
+  PaceReport,
+  QuranDivision,
+  RebalanceMode,
+  RevisionRotation,
+  QuranRef,
+  StopSnapping,
+} from '@/types';
+import {
   getJuzById,
   getSurahById,
   getAyahRangeForPage,
-  getPageForAyah,
-  parseAyahReference,
+  getPageCount,
+  getJuzForAyah,
+  getHizbById,
+  getRubAlHizbById,
+  getManzilById,
+  getHizbForAyah,
+  getRubAlHizbForAyah,
+  getManzilForAyah,
+  getRukuForAyah,
 } from '@/services/quranData';
+import { getAyahWeights } from '@/services/quranText';
+import { isValidHijriDate } from '@/lib/hijri';
+import {
+  FIRST_REF,
+  LAST_REF,
+  isQuranRef,
+  quranRef,
+  parseQuranRef,
+  offsetRef,
+  ayahDistance,
+  minRef,
+  maxRef,
+  getRefsInRange,
+  getSurahAndAyah,
+  getPageOfRef,
+} from '@/lib/quranRef';
+
+type DivisionUnit = 'juz' | 'surah' | 'hizb' | 'rub' | 'manzil';
+
+type DivisionBounds = { startAyah: QuranRef; endAyah: QuranRef };
 
 /**
- * Calculate the total number of units (pages, juz, etc.) based on the goal
+ * Get the first and last ayah of a division from its "surah:ayah" references
  */
-const calculateTotalUnits = (goal: UserGoal): number => {
-  switch (goal.target) {
-    case 'whole-quran':
-      return goal.unit === 'pages' ? 604 : goal.unit === 'juz' ? 30 : 114;
-    
-    case 'specific-juz':
-      if (!goal.targetValue) return 0;
-      const juz = getJuzById(goal.targetValue);
-      if (!juz) return 0;
-      
-      if (goal.unit === 'pages') {
-        return juz.endPage - juz.startPage + 1;
-      }
-      return 1; // 1 juz
+const toBounds = (division: Pick<QuranDivision, 'startAyah' | 'endAyah'> | null): DivisionBounds | null => {
+  if (!division) return null;
+  
+  const startAyah = parseQuranRef(division.startAyah);
+  const endAyah = parseQuranRef(division.endAyah);
+  return startAyah && endAyah ? { startAyah, endAyah } : null;
+};
+
+/**
+ * Get a surah's first and last ayah
+ */
+const getSurahBounds = (surahId: number): DivisionBounds | null => {
+  const surah = getSurahById(surahId);
+  if (!surah) return null;
+  
+  const startAyah = quranRef(surahId, 1);
+  const endAyah = quranRef(surahId, surah.ayahCount);
+  return startAyah && endAyah ? { startAyah, endAyah } : null;
+};
+
+/**
+ * Get the first and last ayah on a mushaf page
+ */
+const getPageBounds = (pageNum: number): DivisionBounds | null => {
+  const range = getAyahRangeForPage(pageNum);
+  return range ? toBounds({ startAyah: range.start, endAyah: range.end }) : null;
+};
+
+/**
+ * Lookups for the divisions used as units (juz, surah, hizb, rub' al-hizb, manzil)
+ */
+const DIVISIONS: Record<
+  DivisionUnit,
+  {
+    count: number;
+    getById: (id: number) => DivisionBounds | null;
+    findForAyah: (surahId: number, ayahNumber: number) => number | null;
+  }
+> = {
+  juz: { count: 30, getById: id => toBounds(getJuzById(id)), findForAyah: getJuzForAyah },
+  surah: { count: 114, getById: getSurahBounds, findForAyah: surahId => surahId },
+  hizb: { count: 60, getById: id => toBounds(getHizbById(id)), findForAyah: getHizbForAyah },
+  rub: {
+    count: 240,
+    getById: id => toBounds(getRubAlHizbById(id)),
+    findForAyah: getRubAlHizbForAyah,
+  },
+  manzil: { count: 7, getById: id => toBounds(getManzilById(id)), findForAyah: getManzilForAyah },
+};
+
+/**
+ * Division unit matching each division target
+ */
+const DIVISION_TARGETS: Partial<Record<UserGoal['target'], 'hizb' | 'rub' | 'manzil'>> = {
+  'specific-hizb': 'hizb',
+  'specific-rub': 'rub',
+  'specific-manzil': 'manzil',
+};
+
+/**
+ * Check whether a unit is a division rather than pages or ayahs
+ */
+const isDivisionUnit = (unit: UserGoal['unit']): unit is DivisionUnit => {
+  return unit in DIVISIONS;
+};
+
+/**
+ * Get the hizb, rub' al-hizb or manzil targeted by the goal
+ */
+const getTargetDivision = (goal: UserGoal): DivisionBounds | null => {
+  const unit = DIVISION_TARGETS[goal.target];
+  if (!unit || !goal.targetValue) return null;
+  
+  return DIVISIONS[unit].getById(goal.targetValue);
+};
+
+/**
+ * Get the number of the division (of the given unit) containing an ayah
+ */
+const getDivisionForAyah = (unit: DivisionUnit, ayahRef: QuranRef): number | null => {
+  const { surahId, ayahNumber } = getSurahAndAyah(ayahRef);
+  return DIVISIONS[unit].findForAyah(surahId, ayahNumber);
+};
+
+/**
+ * Split an ayah range into half-pages: each page's ayahs within the range,
+ * divided into a first and second half by ayah count
+ */
+const getHalfPageSegments = (fromAyah: QuranRef, toAyah: QuranRef): AyahRange[] => {
+  if (fromAyah > toAyah) return [];
+  
+  const segments: AyahRange[] = [];
+  const lastPage = getPageOfRef(toAyah);
+  
+  for (let pageNum = getPageOfRef(fromAyah); pageNum <= lastPage; pageNum++) {
+    const pageBounds = getPageBounds(pageNum);
+    if (!pageBounds) continue;
     
-    case 'specific-surah':
-      if (!goal.targetValue) return 0;
-      const surah = getSurahById(goal.targetValue);
-      if (!surah) return 0;
-      
-      if (goal.unit === 'pages') {
-        return surah.endPage - surah.startPage + 1;
-      }
-      if (goal.unit === 'ayahs') {
-        return surah.ayahCount;
-      }
-      return 1; // 1 surah
+    const first = maxRef(pageBounds.startAyah, fromAyah);
+    const last = minRef(pageBounds.endAyah, toAyah);
+    if (first > last) continue;
     
-    default:
-      return 0;
+    // A page with a single ayah in range is one segment
+    const firstHalfEnd = offsetRef(first, Math.ceil((ayahDistance(first, last) + 1) / 2) - 1) ?? last;
+    segments.push({ fromAyah: first, toAyah: firstHalfEnd });
+    if (firstHalfEnd < last) {
+      segments.push({ fromAyah: offsetRef(firstHalfEnd, 1) ?? last, toAyah: last });
+    }
+  }
+  
+  return segments;
+};
+
+/**
+ * Calculate the total number of units (pages, juz, etc.) based on the goal
+ */
+const calculateTotalUnits = (goal: UserGoal): number => {
+  // Pages and ayahs are counted between the actual start and end positions
+  if (goal.unit === 'pages') {
+    return getEndingPage(goal) - getStartingPage(goal) + 1;
+  }
+  
+  if (goal.unit === 'ayahs') {
+    return Math.max(ayahDistance(getStartingAyah(goal), getEndingAyah(goal)) + 1, 0);
+  }
+  
+  if (goal.unit === 'half-pages') {
+    return getHalfPageSegments(getStartingAyah(goal), getEndingAyah(goal)).length;
   }
+  
+  // Divisions are counted from the one containing the start to the one containing the end
+  if (isDivisionUnit(goal.unit)) {
+    const fromDivision = getDivisionForAyah(goal.unit, getStartingAyah(goal));
+    const toDivision = getDivisionForAyah(goal.unit, getEndingAyah(goal));
+    return fromDivision && toDivision ? toDivision - fromDivision + 1 : 0;
+  }
+  
+  return 0;
 };
 
 /**
  * Get the starting page for the goal
  */
 const getStartingPage = (goal: UserGoal): number => {
+  if (goal.startFrom) {
+    return getPageOfRef(goal.startFrom);
+  }
+  
   switch (goal.target) {
     case 'whole-quran':
       return 1;
@@ -69,6 +218,16 @@ const getStartingPage = (goal: UserGoal): number => {
       const surah = getSurahById(goal.targetValue);
       return surah?.startPage || 1;
     
+    case 'specific-hizb':
+    case 'specific-rub':
+    case 'specific-manzil':
+      const division = getTargetDivision(goal);
+      return division ? getPageOfRef(division.startAyah) : 1;
+    
+    case 'ayah-range':
+      if (!goal.targetRange) return 1;
+      return getPageOfRef(goal.targetRange.fromAyah);
+    
     default:
       return 1;
   }
@@ -80,7 +239,7 @@ const getStartingPage = (goal: UserGoal): number => {
 const getEndingPage = (goal: UserGoal): number => {
   switch (goal.target) {
     case 'whole-quran':
-      return 604;
+      return getPageCount();
     
     case 'specific-juz':
       if (!goal.targetValue) return 1;
@@ -92,55 +251,177 @@ const getEndingPage = (goal: UserGoal): number => {
       const surah = getSurahById(goal.targetValue);
       return surah?.endPage || 1;
     
+    case 'specific-hizb':
+    case 'specific-rub':
+    case 'specific-manzil':
+      const division = getTargetDivision(goal);
+      return division ? getPageOfRef(division.endAyah) : 1;
+    
+    case 'ayah-range':
+      if (!goal.targetRange) return 1;
+      return getPageOfRef(goal.targetRange.toAyah);
+    
     default:
       return 1;
   }
 };
 
 /**
- * Get the starting ayah reference for the goal
+ * Get the first ayah of the goal's target, ignoring any resume position
  */
-const getStartingAyah = (goal: UserGoal): string => {
+const getTargetStartAyah = (goal: UserGoal): QuranRef => {
   switch (goal.target) {
     case 'whole-quran':
-      return '1:1'; // Al-Fatihah, ayah 1
+      return FIRST_REF;
     
     case 'specific-juz':
-      if (!goal.targetValue) return '1:1';
-      const juz = getJuzById(goal.targetValue);
-      return juz?.startAyah || '1:1';
-    
     case 'specific-surah':
-      if (!goal.targetValue) return '1:1';
-      return `${goal.targetValue}:1`;
+      if (!goal.targetValue) return FIRST_REF;
+      const unit = goal.target === 'specific-juz' ? 'juz' : 'surah';
+      return DIVISIONS[unit].getById(goal.targetValue)?.startAyah ?? FIRST_REF;
+    
+    case 'specific-hizb':
+    case 'specific-rub':
+    case 'specific-manzil':
+      return getTargetDivision(goal)?.startAyah ?? FIRST_REF;
+    
+    case 'ayah-range':
+      return goal.targetRange?.fromAyah ?? FIRST_REF;
     
     default:
-      return '1:1';
+      return FIRST_REF;
   }
 };
 
 /**
- * Get the ending ayah reference for the goal
+ * Get the starting ayah for the goal
+ */
+const getStartingAyah = (goal: UserGoal): QuranRef => {
+  return goal.startFrom ?? getTargetStartAyah(goal);
+};
+
+/**
+ * Get the ending ayah for the goal
  */
-const getEndingAyah = (goal: UserGoal): string => {
+const getEndingAyah = (goal: UserGoal): QuranRef => {
   switch (goal.target) {
     case 'whole-quran':
-      return '114:6'; // An-Nas, ayah 6
+      return LAST_REF;
     
     case 'specific-juz':
-      if (!goal.targetValue) return '1:1';
-      const juz = getJuzById(goal.targetValue);
-      return juz?.endAyah || '1:1';
-    
     case 'specific-surah':
-      if (!goal.targetValue) return '1:1';
-      const surah = getSurahById(goal.targetValue);
-      if (!surah) return '1:1';
-      return `${goal.targetValue}:${surah.ayahCount}`;
+      if (!goal.targetValue) return FIRST_REF;
+      const unit = goal.target === 'specific-juz' ? 'juz' : 'surah';
+      return DIVISIONS[unit].getById(goal.targetValue)?.endAyah ?? FIRST_REF;
+    
+    case 'specific-hizb':
+    case 'specific-rub':
+    case 'specific-manzil':
+      return getTargetDivision(goal)?.endAyah ?? FIRST_REF;
+    
+    case 'ayah-range':
+      return goal.targetRange?.toAyah ?? FIRST_REF;
     
     default:
-      return '1:1';
+      return FIRST_REF;
+  }
+};
+
+/**
+ * Get a copy of a date reset to the start of its day
+ */
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Check whether a date falls within one of the goal's pause periods
+ */
+export const isPausedDay = (goal: UserGoal, date: Date): boolean => {
+  const day = startOfDay(date);
+  
+  return (goal.pausePeriods ?? []).some(
+    period => day >= startOfDay(period.startDate) && day <= startOfDay(period.endDate),
+  );
+};
+
+/**
+ * Check whether the goal is read on a date: a selected weekday outside any pause
+ */
+const isReadingDay = (goal: UserGoal, date: Date): boolean => {
+  return goal.daysOfWeek.includes(date.getDay()) && !isPausedDay(goal, date);
+};
+
+/**
+ * Count the days covered by the goal's pause periods
+ */
+const countPausedDays = (goal: UserGoal): number => {
+  return (goal.pausePeriods ?? []).reduce((total, period) => {
+    const days = Math.round(
+      (startOfDay(period.endDate).getTime() - startOfDay(period.startDate).getTime()) /
+        (1000 * 60 * 60 * 24),
+    ) + 1;
+    return total + Math.max(days, 0);
+  }, 0);
+};
+
+/**
+ * Count the selected reading days from the start date up to the deadline
+ */
+const countReadingDaysUntilDeadline = (goal: UserGoal): number => {
+  if (!goal.deadline) return 0;
+  
+  const currentDate = new Date(goal.startDate);
+  currentDate.setHours(0, 0, 0, 0);
+  const deadline = new Date(goal.deadline);
+  deadline.setHours(23, 59, 59, 999);
+  
+  let count = 0;
+  while (currentDate <= deadline) {
+    if (isReadingDay(goal, currentDate)) {
+      count++;
+    }
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+  
+  return count;
+};
+
+/**
+ * Split units as evenly as possible over a number of days.
+ * Loads differ by at most one unit, so a fractional pace alternates
+ * between its floor and ceiling (e.g. 604 pages in 30 days: 20 or 21 a day).
+ */
+const distributeUnits = (totalUnits: number, days: number): number[] => {
+  const loads: number[] = [];
+  
+  for (let day = 0; day < days; day++) {
+    loads.push(
+      Math.floor(((day + 1) * totalUnits) / days) - Math.floor((day * totalUnits) / days),
+    );
   }
+  
+  return loads;
+};
+
+/**
+ * Get the fixed daily amount for a weekday (0 = Sunday)
+ */
+const getDailyAmountForWeekday = (goal: UserGoal, weekday: number): number => {
+  return goal.dailyAmountsByWeekday?.[weekday] ?? goal.dailyAmount;
+};
+
+/**
+ * Get the number of units to read on each reading day
+ */
+const getDailyLoads = (goal: UserGoal, totalUnits: number, dates: Date[]): number[] => {
+  if (goal.planningMode === 'deadline') {
+    return distributeUnits(totalUnits, dates.length);
+  }
+  
+  return dates.map(date => getDailyAmountForWeekday(goal, date.getDay()));
 };
 
 /**
@@ -151,19 +432,32 @@ const generateReadingDates = (goal: UserGoal, totalUnits: number): Date[] => {
   const currentDate = new Date(goal.startDate);
   currentDate.setHours(0, 0, 0, 0); // Reset to start of day
   
-  const unitsPerDay = goal.dailyAmount;
-  const totalDaysNeeded = Math.ceil(totalUnits / unitsPerDay);
+  // Deadline-driven goals read on every selected day up to the deadline;
+  // otherwise days are added until their amounts cover the total
+  const isDeadlineDriven = goal.planningMode === 'deadline';
+  const smallestAmount = Math.min(
+    ...goal.daysOfWeek.map(weekday => getDailyAmountForWeekday(goal, weekday)),
+  );
+  const totalDaysNeeded = isDeadlineDriven
+    ? countReadingDaysUntilDeadline(goal)
+    : Math.ceil(totalUnits / smallestAmount);
+  
+  if (!isDeadlineDriven && !(smallestAmount > 0)) {
+    return dates;
+  }
   
-  let daysAdded = 0;
+  let unitsCovered = 0;
   let iterations = 0;
-  const maxIterations = totalDaysNeeded * 10; // Safety limit
+  const maxIterations = totalDaysNeeded * 10 + countPausedDays(goal); // Safety limit
   
-  while (daysAdded < totalDaysNeeded && iterations < maxIterations) {
+  while (
+    (isDeadlineDriven ? dates.length < totalDaysNeeded : unitsCovered < totalUnits) &&
+    iterations < maxIterations
+  ) {
     iterations++;
     
-    // Check if this day of week is selected for reading
-    const dayOfWeek = currentDate.getDay();
-    if (goal.daysOfWeek.includes(dayOfWeek)) {
+    // Check if this day of week is selected for reading and not paused
+    if (isReadingDay(goal, currentDate)) {
       // Check if we're within deadline (if specified)
       if (goal.deadline) {
         const deadline = new Date(goal.deadline);
@@ -175,7 +469,7 @@ const generateReadingDates = (goal: UserGoal, totalUnits: number): Date[] => {
       }
       
       dates.push(new Date(currentDate));
-      daysAdded++;
+      unitsCovered += getDailyAmountForWeekday(goal, currentDate.getDay());
     }
     
     // Move to next day
@@ -188,52 +482,190 @@ const generateReadingDates = (goal: UserGoal, totalUnits: number): Date[] => {
 /**
  * Calculate ayah range for a given page range
  */
-const getAyahsForPageRange = (startPage: number, endPage: number): { fromAyah: string; toAyah: string } => {
-  const startRange = getAyahRangeForPage(startPage);
-  const endRange = getAyahRangeForPage(endPage);
-  
+const getAyahsForPageRange = (startPage: number, endPage: number): AyahRange => {
   return {
-    fromAyah: startRange?.start || '1:1',
-    toAyah: endRange?.end || '1:1',
+    fromAyah: getPageBounds(startPage)?.startAyah ?? FIRST_REF,
+    toAyah: getPageBounds(endPage)?.endAyah ?? FIRST_REF,
   };
 };
 
 /**
- * Increment ayah reference by a given number of ayahs
+ * Get the ayah after `ayahRef`, or null if it is the goal's last ayah
+ */
+const getNextAyahWithin = (ayahRef: QuranRef, endingAyah: QuranRef): QuranRef | null => {
+  const next = offsetRef(ayahRef, 1);
+  return next && next <= endingAyah ? next : null;
+};
+
+/**
+ * Split an ayah range into consecutive days whose word or letter counts follow
+ * each day's share of the units, ending each day on the ayah boundary nearest
+ * its target. Every day gets at least one ayah while ayahs remain.
  */
-const incrementAyah = (currentAyah: string, count: number): string => {
-  const parsed = parseAyahReference(currentAyah);
-  if (!parsed) return currentAyah;
+const splitByWeight = (
+  fromAyah: QuranRef,
+  toAyah: QuranRef,
+  shares: number[],
+  measure: 'words' | 'letters',
+): AyahRange[] => {
+  const weights = getAyahWeights(measure);
+  const totalShares = shares.reduce((sum, share) => sum + share, 0);
+  const totalWeight = getRefsInRange(fromAyah, toAyah).reduce((sum, ayahRef) => sum + weights[ayahRef], 0);
   
-  let { surahId, ayahNumber } = parsed;
-  let remaining = count;
+  const ranges: AyahRange[] = [];
+  let start = fromAyah;
+  let sharesSoFar = 0;
+  let weightSoFar = 0;
   
-  while (remaining > 0 && surahId <= 114) {
-    const surah = getSurahById(surahId);
-    if (!surah) break;
+  for (const [day, share] of shares.entries()) {
+    if (start > toAyah) break;
     
-    const ayahsLeftInSurah = surah.ayahCount - ayahNumber;
+    sharesSoFar += share;
+    const target = (totalWeight * sharesSoFar) / totalShares;
+    const daysLeft = shares.length - day - 1;
+    const latestEnd = daysLeft === 0 ? toAyah : maxRef(start, (toAyah - daysLeft) as QuranRef);
     
-    if (remaining <= ayahsLeftInSurah) {
-      ayahNumber += remaining;
-      remaining = 0;
-    } else {
-      remaining -= (ayahsLeftInSurah + 1);
-      surahId++;
-      ayahNumber = 1;
+    let end = start;
+    weightSoFar += weights[end];
+    
+    // Take the next ayah while that ends the day nearer its target
+    while (end < latestEnd && (daysLeft === 0 || weightSoFar + weights[end + 1] / 2 < target)) {
+      end = (end + 1) as QuranRef;
+      weightSoFar += weights[end];
     }
+    
+    ranges.push({ fromAyah: start, toAyah: end });
+    start = (end + 1) as QuranRef;
   }
   
-  return `${surahId}:${ayahNumber}`;
+  return ranges;
 };
 
 /**
- * Generate a complete reading plan from a user goal
- * 
- * This is the main function of the goal calculator.
- * It creates an array of daily assignments based on the user's preferences.
+ * Generate a plan whose days are balanced by words or letters rather than units
  */
-export const generatePlan = (goal: UserGoal): DailyAssignment[] => {
+const generateWeightedPlan = (
+  goal: UserGoal,
+  totalUnits: number,
+  readingDates: Date[],
+  dailyLoads: number[],
+  measure: 'words' | 'letters',
+): DailyAssignment[] => {
+  // Fixed daily amounts may add up to more than the goal, so the last days only share what is left
+  let unitsLeft = totalUnits;
+  const days = readingDates
+    .map((date, i) => {
+      const share = Math.min(dailyLoads[i], unitsLeft);
+      unitsLeft -= share;
+      return { date, share };
+    })
+    .filter(({ share }) => share > 0);
+  
+  const ranges = splitByWeight(
+    getStartingAyah(goal),
+    getEndingAyah(goal),
+    days.map(({ share }) => share),
+    measure,
+  );
+  
+  return ranges.map(({ fromAyah, toAyah }, i) => ({
+    date: days[i].date,
+    fromAyah,
+    toAyah,
+    fromPage: getPageOfRef(fromAyah),
+    toPage: getPageOfRef(toAyah),
+    completed: false,
+    isCatchUpDay: false,
+  }));
+};
+
+/**
+ * Division containing an ayah, for each kind of stopping point
+ */
+const STOP_BOUNDARIES: Record<
+  StopSnapping['boundaries'][number],
+  (surahId: number, ayahNumber: number) => number | null
+> = {
+  ruku: getRukuForAyah,
+  rub: getRubAlHizbForAyah,
+  surah: surahId => surahId,
+};
+
+/**
+ * Check whether an ayah ends one of the given boundaries (or the Quran)
+ */
+const isStoppingPoint = (ayahRef: QuranRef, boundaries: StopSnapping['boundaries']): boolean => {
+  const next = offsetRef(ayahRef, 1);
+  if (!next) return true;
+  
+  const current = getSurahAndAyah(ayahRef);
+  const following = getSurahAndAyah(next);
+  return boundaries.some(
+    boundary =>
+      STOP_BOUNDARIES[boundary](current.surahId, current.ayahNumber) !==
+      STOP_BOUNDARIES[boundary](following.surahId, following.ayahNumber),
+  );
+};
+
+/**
+ * Get the stopping point nearest an ayah, at most `tolerance` ayahs away and
+ * between `earliest` and `latest`; on a tie the earlier one wins
+ */
+const findNearestStop = (
+  ayahRef: QuranRef,
+  earliest: QuranRef,
+  latest: QuranRef,
+  { boundaries, tolerance }: StopSnapping,
+): QuranRef | null => {
+  for (let distance = 0; distance <= tolerance; distance++) {
+    for (const candidate of [ayahRef - distance, ayahRef + distance]) {
+      if (candidate >= earliest && candidate <= latest && isStoppingPoint(candidate as QuranRef, boundaries)) {
+        return candidate as QuranRef;
+      }
+    }
+  }
+  
+  return null;
+};
+
+/**
+ * Move the boundary between each pair of consecutive days to the nearest
+ * stopping point within the tolerance, recording how far each day's start and
+ * end moved. Every day keeps at least one ayah and its date, so the number of
+ * days and the deadline are unchanged.
+ */
+const snapToStoppingPoints = (plan: DailyAssignment[], snapping: StopSnapping): DailyAssignment[] => {
+  const snapped = plan.map(assignment => ({ ...assignment, snapShift: { start: 0, end: 0 } }));
+  const tolerance = Math.max(Math.floor(snapping.tolerance), 0);
+  
+  for (let i = 0; i < snapped.length - 1; i++) {
+    const day = snapped[i];
+    const nextDay = snapped[i + 1];
+    if (nextDay.fromAyah !== day.toAyah + 1) continue;
+    
+    const evenEnd = day.toAyah;
+    const end = findNearestStop(evenEnd, day.fromAyah, (nextDay.toAyah - 1) as QuranRef, {
+      ...snapping,
+      tolerance,
+    });
+    if (!end || end === evenEnd) continue;
+    
+    day.toAyah = end;
+    day.toPage = getPageOfRef(end);
+    day.snapShift.end = ayahDistance(evenEnd, end);
+    nextDay.fromAyah = (end + 1) as QuranRef;
+    nextDay.fromPage = getPageOfRef(nextDay.fromAyah);
+    nextDay.snapShift.start = ayahDistance(evenEnd, end);
+  }
+  
+  return snapped;
+};
+
+/**
+ * Split a goal into daily assignments, each day's share measured in the goal's unit
+ * (or in words or letters when the goal is weighted)
+ */
+const splitGoalIntoDays = (goal: UserGoal): DailyAssignment[] => {
   // Step 1: Calculate total units
   const totalUnits = calculateTotalUnits(goal);
   
@@ -249,29 +681,46 @@ export const generatePlan = (goal: UserGoal): DailyAssignment[] => {
   }
   
   // Step 3: Distribute units across dates
-  const unitsPerDay = goal.dailyAmount;
+  const dailyLoads = getDailyLoads(goal, totalUnits, readingDates);
+  
+  if (goal.weighting === 'words' || goal.weighting === 'letters') {
+    return generateWeightedPlan(goal, totalUnits, readingDates, dailyLoads, goal.weighting);
+  }
+  
   const assignments: DailyAssignment[] = [];
   
   // Get starting position
-  let currentPage = getStartingPage(goal);
-  let currentAyah = getStartingAyah(goal);
+  const startingPage = getStartingPage(goal);
+  const startingAyah = getStartingAyah(goal);
+  let currentPage = startingPage;
+  let currentAyah = startingAyah;
   const endingPage = getEndingPage(goal);
   const endingAyah = getEndingAyah(goal);
+  const halfPages = goal.unit === 'half-pages' ? getHalfPageSegments(startingAyah, endingAyah) : [];
+  let halfPageIndex = 0;
   
   // Generate assignments based on unit type
-  for (const date of readingDates) {
+  for (const [dayIndex, date] of readingDates.entries()) {
+    const unitsToday = dailyLoads[dayIndex];
+    
+    // Deadline-driven plans with fewer units than days leave some days free
+    if (unitsToday === 0) {
+      continue;
+    }
+    
     if (goal.unit === 'pages') {
       // Calculate page range for this day
       const fromPage = currentPage;
-      const toPage = Math.min(currentPage + unitsPerDay - 1, endingPage);
+      const toPage = Math.min(currentPage + unitsToday - 1, endingPage);
       
       // Get ayah range for this page range
       const ayahRange = getAyahsForPageRange(fromPage, toPage);
       
       assignments.push({
         date,
-        fromAyah: ayahRange.fromAyah,
-        toAyah: ayahRange.toAyah,
+        // The goal may start or end part-way through a page
+        fromAyah: fromPage === startingPage ? startingAyah : ayahRange.fromAyah,
+        toAyah: toPage === endingPage ? endingAyah : ayahRange.toAyah,
         fromPage,
         toPage,
         completed: false,
@@ -285,61 +734,75 @@ export const generatePlan = (goal: UserGoal): DailyAssignment[] => {
         break;
       }
     } else if (goal.unit === 'ayahs') {
-      // Calculate ayah range for this day
+      // Calculate ayah range for this day, without reading past the end of the goal
       const fromAyah = currentAyah;
-      const toAyah = incrementAyah(currentAyah, unitsPerDay - 1);
-      
-      // Get page numbers for these ayahs
-      const fromParsed = parseAyahReference(fromAyah);
-      const toParsed = parseAyahReference(toAyah);
-      
-      const fromPage = fromParsed ? (getPageForAyah(fromParsed.surahId, fromParsed.ayahNumber) || 1) : 1;
-      const toPage = toParsed ? (getPageForAyah(toParsed.surahId, toParsed.ayahNumber) || 1) : 1;
+      const toAyah = minRef(offsetRef(currentAyah, unitsToday - 1) ?? endingAyah, endingAyah);
       
       assignments.push({
         date,
         fromAyah,
         toAyah,
-        fromPage,
-        toPage,
+        fromPage: getPageOfRef(fromAyah),
+        toPage: getPageOfRef(toAyah),
         completed: false,
         isCatchUpDay: false,
       });
       
-      currentAyah = incrementAyah(toAyah, 1);
+      // Break if we've reached the ending ayah
+      const nextAyah = getNextAyahWithin(toAyah, endingAyah);
+      if (!nextAyah) {
+        break;
+      }
+      currentAyah = nextAyah;
+    } else if (goal.unit === 'half-pages') {
+      // Each day covers whole half-pages
+      const first = halfPages[halfPageIndex];
+      const last = halfPages[Math.min(halfPageIndex + unitsToday, halfPages.length) - 1];
+      
+      assignments.push({
+        date,
+        fromAyah: first.fromAyah,
+        toAyah: last.toAyah,
+        fromPage: getPageOfRef(first.fromAyah),
+        toPage: getPageOfRef(last.toAyah),
+        completed: false,
+        isCatchUpDay: false,
+      });
       
-      // Break if we've reached or passed the ending ayah
-      const endParsed = parseAyahReference(endingAyah);
-      const currentParsed = parseAyahReference(currentAyah);
+      halfPageIndex += unitsToday;
       
-      if (endParsed && currentParsed) {
-        if (currentParsed.surahId > endParsed.surahId ||
-            (currentParsed.surahId === endParsed.surahId && currentParsed.ayahNumber > endParsed.ayahNumber)) {
-          break;
-        }
+      if (halfPageIndex >= halfPages.length) {
+        break;
       }
-    } else {
-      // For juz or surah units, distribute pages evenly
-      const fromPage = currentPage;
-      const toPage = Math.min(currentPage + unitsPerDay - 1, endingPage);
+    } else if (isDivisionUnit(goal.unit)) {
+      // Each day covers whole divisions, so boundaries fall on real juz/surah/hizb/rub'/manzil breaks
+      const fromAyah = currentAyah;
+      const firstDivision = getDivisionForAyah(goal.unit, fromAyah) || 1;
+      const lastDivision = Math.min(
+        firstDivision + unitsToday - 1,
+        DIVISIONS[goal.unit].count,
+      );
       
-      const ayahRange = getAyahsForPageRange(fromPage, toPage);
+      const toAyah = minRef(
+        DIVISIONS[goal.unit].getById(lastDivision)?.endAyah ?? endingAyah,
+        endingAyah,
+      );
       
       assignments.push({
         date,
-        fromAyah: ayahRange.fromAyah,
-        toAyah: ayahRange.toAyah,
-        fromPage,
-        toPage,
+        fromAyah,
+        toAyah,
+        fromPage: getPageOfRef(fromAyah),
+        toPage: getPageOfRef(toAyah),
         completed: false,
         isCatchUpDay: false,
       });
       
-      currentPage = toPage + 1;
-      
-      if (currentPage > endingPage) {
+      const nextAyah = getNextAyahWithin(toAyah, endingAyah);
+      if (!nextAyah) {
         break;
       }
+      currentAyah = nextAyah;
     }
   }
   
@@ -347,54 +810,924 @@ export const generatePlan = (goal: UserGoal): DailyAssignment[] => {
 };
 
 /**
- * Recalculate plan when a user misses days
- * This can be used to create catch-up assignments
+ * Generate a complete reading plan from a user goal
+ * 
+ * This is the main function of the goal calculator.
+ * It creates an array of daily assignments based on the user's preferences.
  */
-export const recalculatePlanWithCatchUp = (
-  originalPlan: DailyAssignment[],
-  missedAssignments: DailyAssignment[]
-): DailyAssignment[] => {
-  // This function can be implemented later for advanced features
-  // For now, we'll just return the original plan
-  return originalPlan;
+export const generatePlan = (goal: UserGoal): DailyAssignment[] => {
+  const plan = splitGoalIntoDays(goal);
+  return goal.snapToStops ? snapToStoppingPoints(plan, goal.snapToStops) : plan;
 };
 
 /**
- * Validate a user goal before generating a plan
+ * Calculate the reading pace a goal needs to finish by its deadline
+ * 
+ * For deadline-driven goals this is the pace the generated plan follows.
+ * For fixed daily amounts it reports whether that amount is enough.
  */
-export const validateGoal = (goal: UserGoal): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-  
-  // Check if daysOfWeek is not empty
-  if (goal.daysOfWeek.length === 0) {
-    errors.push('At least one day of the week must be selected');
-  }
+export const calculateRequiredPace = (goal: UserGoal): PaceReport => {
+  const totalUnits = calculateTotalUnits(goal);
   
-  // Check if startDate is valid
-  const startDate = new Date(goal.startDate);
-  if (isNaN(startDate.getTime())) {
-    errors.push('Invalid start date');
+  if (!goal.deadline) {
+    // Without a deadline, the fixed daily amounts set the number of days
+    const readingDays =
+      goal.planningMode !== 'deadline'
+        ? generateReadingDates(goal, totalUnits).length
+        : 0;
+    
+    return {
+      totalUnits,
+      readingDays,
+      unitsPerDay: readingDays > 0 ? totalUnits / readingDays : 0,
+      minimumDailyAmount: readingDays > 0 ? Math.ceil(totalUnits / readingDays) : 0,
+      meetsDeadline: readingDays > 0,
+    };
   }
   
-  // Check if deadline is after start date (if provided)
-  if (goal.deadline) {
-    const deadline = new Date(goal.deadline);
-    if (isNaN(deadline.getTime())) {
-      errors.push('Invalid deadline');
-    } else if (deadline < startDate) {
-      errors.push('Deadline must be after start date');
-    }
-  }
+  const readingDays = countReadingDaysUntilDeadline(goal);
+  const unitsPerDay = readingDays > 0 ? totalUnits / readingDays : 0;
+  const minimumDailyAmount = Math.ceil(unitsPerDay);
   
-  // Check if dailyAmount is positive
-  if (goal.dailyAmount <= 0) {
-    errors.push('Daily amount must be greater than 0');
-  }
+  // Fixed amounts meet the deadline if the days before it cover every unit
+  const unitsBeforeDeadline =
+    goal.planningMode === 'deadline'
+      ? totalUnits
+      : generateReadingDates(goal, totalUnits).reduce(
+          (sum, date) => sum + getDailyAmountForWeekday(goal, date.getDay()),
+          0,
+        );
   
-  // Check target-specific validations
-  if (goal.target === 'specific-juz' || goal.target === 'specific-surah') {
-    if (!goal.targetValue) {
-      errors.push('Target value is required for specific juz or surah goals');
+  return {
+    totalUnits,
+    readingDays,
+    unitsPerDay,
+    minimumDailyAmount,
+    meetsDeadline: readingDays > 0 && unitsBeforeDeadline >= totalUnits,
+  };
+};
+
+/**
+ * Split weighted portions, in order, into at most `days` consecutive groups
+ * so that the heaviest group is as light as possible
+ */
+const partitionEvenly = (weights: number[], days: number): number[][] => {
+  const groupCount = Math.min(weights.length, days);
+  if (groupCount === 0) return [];
+  
+  const prefix = [0];
+  weights.forEach(weight => prefix.push(prefix[prefix.length - 1] + weight));
+  
+  // best[k][i]: lightest possible heaviest group splitting the first i portions into k groups
+  const best: number[][] = [prefix.map(total => total)];
+  const splitAt: number[][] = [prefix.map(() => 0)];
+  
+  for (let k = 1; k < groupCount; k++) {
+    best.push([]);
+    splitAt.push([]);
+    for (let i = 0; i <= weights.length; i++) {
+      best[k][i] = Infinity;
+      splitAt[k][i] = 0;
+      for (let j = k; j < i; j++) {
+        const heaviest = Math.max(best[k - 1][j], prefix[i] - prefix[j]);
+        if (heaviest < best[k][i]) {
+          best[k][i] = heaviest;
+          splitAt[k][i] = j;
+        }
+      }
+    }
+  }
+  
+  const groups: number[][] = [];
+  let end = weights.length;
+  for (let k = groupCount - 1; k >= 0; k--) {
+    const start = k > 0 ? splitAt[k][end] : 0;
+    const group: number[] = [];
+    for (let i = start; i < end; i++) group.push(i);
+    groups.unshift(group);
+    end = start;
+  }
+  
+  return groups;
+};
+
+/**
+ * Get the revision assignments for each day of one cycle of a rotation
+ * 
+ * Memorized portions are kept in mushaf order and grouped into balanced days
+ * by page count, so each day starts and ends on a juz or surah boundary.
+ * Adjacent portions on the same day are merged into one assignment. When
+ * there are fewer portions than days, the free days are spread out.
+ */
+const getRevisionCycle = (rotation: RevisionRotation): AyahRange[][] => {
+  const portions = [...new Set(rotation.memorized)]
+    .sort((a, b) => a - b)
+    .map(id => ({ id, bounds: DIVISIONS[rotation.unit].getById(id) }))
+    .filter((portion): portion is { id: number; bounds: DivisionBounds } => !!portion.bounds);
+  
+  const weights = portions.map(
+    ({ bounds }) =>
+      getPageOfRef(bounds.endAyah) - getPageOfRef(bounds.startAyah) + 1,
+  );
+  const groups = partitionEvenly(weights, rotation.cycleDays);
+  const cycle: AyahRange[][] = Array.from({ length: rotation.cycleDays }, () => []);
+  
+  groups.forEach((group, groupIndex) => {
+    const day = Math.floor((groupIndex * rotation.cycleDays) / groups.length);
+    
+    for (const index of group) {
+      const { id, bounds } = portions[index];
+      const ranges = cycle[day];
+      
+      if (ranges.length > 0 && portions[index - 1]?.id === id - 1) {
+        ranges[ranges.length - 1].toAyah = bounds.endAyah;
+      } else {
+        ranges.push({ fromAyah: bounds.startAyah, toAyah: bounds.endAyah });
+      }
+    }
+  });
+  
+  return cycle;
+};
+
+/**
+ * Build a day's revision assignments from its ayah ranges
+ */
+const buildRevisionAssignments = (ranges: AyahRange[], date: Date): DailyAssignment[] => {
+  return ranges.map(range => ({
+    date,
+    fromAyah: range.fromAyah,
+    toAyah: range.toAyah,
+    fromPage: getPageOfRef(range.fromAyah),
+    toPage: getPageOfRef(range.toAyah),
+    completed: false,
+    isCatchUpDay: false,
+  }));
+};
+
+/**
+ * Generate a muraja'ah plan revising every memorized portion once per cycle
+ * 
+ * The plan covers the given number of cycles from the rotation's start date;
+ * use `getRevisionAssignments` for any later day, as the rotation restarts
+ * by itself when a cycle ends.
+ */
+export const generateRevisionPlan = (
+  rotation: RevisionRotation,
+  cycles: number = 1,
+): DailyAssignment[] => {
+  const cycle = getRevisionCycle(rotation);
+  const assignments: DailyAssignment[] = [];
+  const date = startOfDay(rotation.startDate);
+  
+  for (let i = 0; i < cycles; i++) {
+    for (const ranges of cycle) {
+      assignments.push(...buildRevisionAssignments(ranges, new Date(date)));
+      date.setDate(date.getDate() + 1);
+    }
+  }
+  
+  return assignments;
+};
+
+/**
+ * Get a day's revision assignments, wherever it falls in the repeating cycle
+ */
+export const getRevisionAssignments = (
+  rotation: RevisionRotation,
+  date: Date,
+): DailyAssignment[] => {
+  const day = startOfDay(date);
+  const daysSinceStart = Math.round(
+    (day.getTime() - startOfDay(rotation.startDate).getTime()) / (1000 * 60 * 60 * 24),
+  );
+  
+  if (daysSinceStart < 0 || rotation.cycleDays < 1) return [];
+  
+  const cycle = getRevisionCycle(rotation);
+  return buildRevisionAssignments(cycle[daysSinceStart % rotation.cycleDays], day);
+};
+
+/**
+ * Validate a revision rotation before it is planned
+ */
+export const validateRevisionRotation = (
+  rotation: RevisionRotation,
+): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  const count = DIVISIONS[rotation.unit].count;
+  
+  if (rotation.memorized.length === 0) {
+    errors.push('At least one memorized portion must be selected');
+  }
+  
+  if (rotation.memorized.some(id => !Number.isInteger(id) || id < 1 || id > count)) {
+    errors.push(`${rotation.unit === 'juz' ? 'Juz' : 'Surah'} number must be between 1 and ${count}`);
+  }
+  
+  if (!Number.isInteger(rotation.cycleDays) || rotation.cycleDays < 1) {
+    errors.push('Cycle length must be at least 1 day');
+  }
+  
+  if (isNaN(new Date(rotation.startDate).getTime())) {
+    errors.push('Invalid start date');
+  }
+  
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
+
+/**
+ * Order in which catch-up strategies are tried when none is requested
+ */
+export const CATCH_UP_STRATEGIES: CatchUpStrategy[] = [
+  'spread-evenly',
+  'off-days',
+  'append-days',
+];
+
+/**
+ * Check whether a date falls after the goal's deadline (if any)
+ */
+const isPastDeadline = (goal: UserGoal, date: Date): boolean => {
+  if (!goal.deadline) return false;
+  
+  const deadline = new Date(goal.deadline);
+  deadline.setHours(23, 59, 59, 999); // End of deadline day
+  
+  return date > deadline;
+};
+
+/**
+ * Collect the next `count` dates from `fromDate` (inclusive) that match a predicate
+ */
+const collectDates = (
+  fromDate: Date,
+  count: number,
+  matches: (date: Date) => boolean,
+  skippedDays = 0,
+): Date[] => {
+  const dates: Date[] = [];
+  const currentDate = startOfDay(fromDate);
+  const maxIterations = count * 7 + 7 + skippedDays; // Safety limit: every weekday has been seen
+  
+  for (let i = 0; i < maxIterations && dates.length < count; i++) {
+    if (matches(currentDate)) {
+      dates.push(new Date(currentDate));
+    }
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+  
+  return dates;
+};
+
+/**
+ * Build a catch-up assignment covering an absolute ayah range
+ */
+const buildCatchUpAssignment = (
+  date: Date,
+  fromAyah: QuranRef,
+  toAyah: QuranRef,
+): DailyAssignment => {
+  return {
+    date,
+    fromAyah,
+    toAyah,
+    fromPage: getPageOfRef(fromAyah),
+    toPage: getPageOfRef(toAyah),
+    completed: false,
+    isCatchUpDay: true,
+  };
+};
+
+/**
+ * Split the missed reading into equal ayah shares on the remaining reading days
+ */
+const spreadEvenly = (
+  goal: UserGoal,
+  plan: DailyAssignment[],
+  missed: DailyAssignment[],
+  fromDate: Date,
+): DailyAssignment[] | null => {
+  const remainingDates: Date[] = [];
+  for (const assignment of plan) {
+    const date = startOfDay(assignment.date);
+    if (
+      !assignment.completed &&
+      date >= fromDate &&
+      !isPastDeadline(goal, date) &&
+      !isPausedDay(goal, date) &&
+      !remainingDates.some(d => d.getTime() === date.getTime())
+    ) {
+      remainingDates.push(date);
+    }
+  }
+  
+  if (remainingDates.length === 0) return null;
+  
+  // Missed ranges as ayah segments, in reading order
+  const segments = missed.map(assignment => [assignment.fromAyah, assignment.toAyah]);
+  
+  const totalAyahs = segments.reduce((sum, [from, to]) => sum + ayahDistance(from, to) + 1, 0);
+  const baseShare = Math.floor(totalAyahs / remainingDates.length);
+  const extraShares = totalAyahs % remainingDates.length;
+  
+  const catchUps: DailyAssignment[] = [];
+  let segmentIndex = 0;
+  let nextAyah = segments.length > 0 ? segments[0][0] : FIRST_REF;
+  
+  remainingDates.forEach((date, dayIndex) => {
+    let share = baseShare + (dayIndex < extraShares ? 1 : 0);
+    
+    // A share that crosses a gap between missed ranges becomes two assignments
+    while (share > 0 && segmentIndex < segments.length) {
+      const segmentEnd = segments[segmentIndex][1];
+      const toAyah = minRef(offsetRef(nextAyah, share - 1) ?? segmentEnd, segmentEnd);
+      
+      catchUps.push(buildCatchUpAssignment(date, nextAyah, toAyah));
+      share -= ayahDistance(nextAyah, toAyah) + 1;
+      
+      if (toAyah === segmentEnd) {
+        segmentIndex++;
+        nextAyah = segmentIndex < segments.length ? segments[segmentIndex][0] : FIRST_REF;
+      } else {
+        nextAyah = offsetRef(toAyah, 1) ?? segmentEnd;
+      }
+    }
+  });
+  
+  return catchUps;
+};
+
+/**
+ * Move each missed assignment onto a new reading day after the end of the plan
+ */
+const appendDays = (
+  goal: UserGoal,
+  plan: DailyAssignment[],
+  missed: DailyAssignment[],
+  fromDate: Date,
+): DailyAssignment[] | null => {
+  const lastDate = plan.reduce(
+    (latest, assignment) => (assignment.date > latest ? startOfDay(assignment.date) : latest),
+    new Date(fromDate.getTime() - 24 * 60 * 60 * 1000),
+  );
+  const firstCandidate = new Date(lastDate);
+  firstCandidate.setDate(firstCandidate.getDate() + 1);
+  
+  const dates = collectDates(
+    firstCandidate,
+    missed.length,
+    date => isReadingDay(goal, date),
+    countPausedDays(goal),
+  );
+  
+  if (dates.length < missed.length || dates.some(date => isPastDeadline(goal, date))) {
+    return null;
+  }
+  
+  return missed.map((assignment, i) => ({
+    ...assignment,
+    date: dates[i],
+    isCatchUpDay: true,
+  }));
+};
+
+/**
+ * Move each missed assignment onto one of the user's upcoming non-reading weekdays
+ */
+const scheduleOnOffDays = (
+  goal: UserGoal,
+  missed: DailyAssignment[],
+  fromDate: Date,
+): DailyAssignment[] | null => {
+  const dates = collectDates(
+    fromDate,
+    missed.length,
+    date => !goal.daysOfWeek.includes(date.getDay()) && !isPausedDay(goal, date),
+    countPausedDays(goal),
+  );
+  
+  if (dates.length < missed.length || dates.some(date => isPastDeadline(goal, date))) {
+    return null;
+  }
+  
+  return missed.map((assignment, i) => ({
+    ...assignment,
+    date: dates[i],
+    isCatchUpDay: true,
+  }));
+};
+
+/**
+ * Recalculate plan when a user misses days
+ * 
+ * Missed assignments are removed from their original dates and rescheduled
+ * as catch-up assignments using the requested strategy. Without a strategy,
+ * each one in CATCH_UP_STRATEGIES is tried until one meets the deadline.
+ * If nothing fits, the original plan is returned with `meetsDeadline: false`.
+ */
+export const recalculatePlanWithCatchUp = (
+  goal: UserGoal,
+  originalPlan: DailyAssignment[],
+  missedAssignments: DailyAssignment[],
+  strategy?: CatchUpStrategy,
+  fromDate: Date = new Date(),
+): CatchUpResult => {
+  const missed = missedAssignments.filter(a => !a.completed);
+  
+  if (missed.length === 0) {
+    return { plan: originalPlan, strategy: strategy ?? null, meetsDeadline: true };
+  }
+  
+  const today = startOfDay(fromDate);
+  const remainingPlan = originalPlan.filter(a => !missed.includes(a));
+  const strategies = strategy ? [strategy] : CATCH_UP_STRATEGIES;
+  
+  for (const candidate of strategies) {
+    let catchUps: DailyAssignment[] | null;
+    
+    switch (candidate) {
+      case 'spread-evenly':
+        catchUps = spreadEvenly(goal, remainingPlan, missed, today);
+        break;
+      case 'append-days':
+        catchUps = appendDays(goal, remainingPlan, missed, today);
+        break;
+      case 'off-days':
+        catchUps = scheduleOnOffDays(goal, missed, today);
+        break;
+      default:
+        catchUps = null;
+    }
+    
+    if (catchUps) {
+      const plan = [...remainingPlan, ...catchUps].sort(
+        (a, b) => a.date.getTime() - b.date.getTime(),
+      );
+      return { plan, strategy: candidate, meetsDeadline: true };
+    }
+  }
+  
+  return { plan: originalPlan, strategy: null, meetsDeadline: false };
+};
+
+/**
+ * Split a memorized ayah range into the goal's units (ayahs, pages or half-pages),
+ * each reviewed on its own schedule
+ */
+export const splitIntoMemorizationUnits = (
+  unit: UserGoal['unit'],
+  fromAyah: QuranRef,
+  toAyah: QuranRef,
+): AyahRange[] => {
+  if (unit === 'half-pages') {
+    return getHalfPageSegments(fromAyah, toAyah);
+  }
+  
+  if (fromAyah > toAyah) return [];
+  
+  if (unit === 'ayahs') {
+    return getRefsInRange(fromAyah, toAyah).map(ayahRef => ({
+      fromAyah: ayahRef,
+      toAyah: ayahRef,
+    }));
+  }
+  
+  if (unit === 'pages') {
+    // Whole halves of each page make up the page
+    const units: AyahRange[] = [];
+    for (const segment of getHalfPageSegments(fromAyah, toAyah)) {
+      const previous = units[units.length - 1];
+      if (
+        previous &&
+        getPageOfRef(previous.fromAyah) === getPageOfRef(segment.fromAyah)
+      ) {
+        previous.toAyah = segment.toAyah;
+      } else {
+        units.push({ ...segment });
+      }
+    }
+    return units;
+  }
+  
+  return [{ fromAyah, toAyah }];
+};
+
+/**
+ * Get the fraction (0-1) of an assignment's ayahs that have been read
+ */
+export const getAssignmentProgress = (assignment: DailyAssignment): number => {
+  if (assignment.completed) return 1;
+  if (!assignment.readUpTo) return 0;
+  
+  const total = ayahDistance(assignment.fromAyah, assignment.toAyah) + 1;
+  if (total <= 0) return 0;
+  
+  const read = ayahDistance(assignment.fromAyah, assignment.readUpTo) + 1;
+  return Math.min(Math.max(read / total, 0), 1);
+};
+
+/**
+ * Move the unread ayahs of past, partially read days into the next assignment
+ * 
+ * The partially read day is trimmed to its bookmark and marked complete, and
+ * the assignment that continues its range starts right after the bookmark
+ * instead. When no assignment continues the range (a catch-up range is read
+ * next, or the day was the last one), the leftover becomes a catch-up
+ * assignment of its own today.
+ */
+export const rollOverLeftovers = (
+  plan: DailyAssignment[],
+  fromDate: Date = new Date(),
+): DailyAssignment[] => {
+  const today = startOfDay(fromDate);
+  const rolled = [...plan].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const leftovers: DailyAssignment[] = [];
+  
+  for (let i = 0; i < rolled.length; i++) {
+    const assignment = rolled[i];
+    const progress = getAssignmentProgress(assignment);
+    
+    if (assignment.date >= today || !assignment.readUpTo || progress === 0 || progress === 1) {
+      continue;
+    }
+    
+    const nextFromAyah = offsetRef(assignment.readUpTo, 1) ?? assignment.toAyah;
+    const next = rolled[i + 1];
+    const continuesRange = next && next.fromAyah === offsetRef(assignment.toAyah, 1);
+    
+    if (continuesRange && next.completed) {
+      continue;
+    }
+    
+    rolled[i] = {
+      ...assignment,
+      toAyah: assignment.readUpTo,
+      toPage: getPageOfRef(assignment.readUpTo),
+      completed: true,
+      readUpTo: undefined,
+    };
+    
+    if (continuesRange) {
+      rolled[i + 1] = {
+        ...next,
+        fromAyah: nextFromAyah,
+        fromPage: getPageOfRef(nextFromAyah),
+      };
+    } else {
+      leftovers.push(buildCatchUpAssignment(today, nextFromAyah, assignment.toAyah));
+    }
+  }
+  
+  return leftovers.length > 0
+    ? [...rolled, ...leftovers].sort((a, b) => a.date.getTime() - b.date.getTime())
+    : rolled;
+};
+
+/**
+ * Rebuild the remaining plan after the user read past today's assignment
+ * 
+ * Assignments before today are kept as they are, and so are upcoming
+ * catch-up ranges, which are not part of the reading that continues from
+ * today. Today's own assignment is recorded as completed up to `furthestAyah`
+ * (one is added on a non-reading day), and the rest of the goal is replanned
+ * from the next ayah, either at the same daily load ('finish-earlier') or
+ * spread over the days left until the planned finish date ('lower-load').
+ * The plan is returned unchanged if `furthestAyah` does not go past today's
+ * own reading.
+ */
+export const rebalanceAfterReadingAhead = (
+  goal: UserGoal,
+  plan: DailyAssignment[],
+  furthestAyah: QuranRef,
+  mode: RebalanceMode = 'finish-earlier',
+  fromDate: Date = new Date(),
+): DailyAssignment[] => {
+  const today = startOfDay(fromDate);
+  const sorted = [...plan].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const history = sorted.filter(a => a.date < today);
+  const catchUps = sorted.filter(a => a.date >= today && a.isCatchUpDay);
+  const upcoming = sorted.filter(a => a.date >= today && !a.isCatchUpDay);
+  
+  if (upcoming.length === 0 || !isQuranRef(furthestAyah)) {
+    return plan;
+  }
+  
+  const todays = upcoming.find(a => startOfDay(a.date).getTime() === today.getTime());
+  const later = upcoming.filter(a => a !== todays);
+  const readFrom = (todays ?? upcoming[0]).fromAyah;
+  const planEnd = upcoming.reduce((end, a) => maxRef(end, a.toAyah), readFrom);
+  
+  const isAhead = todays ? furthestAyah > todays.toAyah : readFrom <= furthestAyah;
+  if (!isAhead) {
+    return plan;
+  }
+  
+  const readTo = minRef(furthestAyah, planEnd);
+  const todaysReading: DailyAssignment = {
+    date: todays?.date ?? today,
+    fromAyah: readFrom,
+    toAyah: readTo,
+    fromPage: getPageOfRef(readFrom),
+    toPage: getPageOfRef(readTo),
+    completed: true,
+    isCatchUpDay: false,
+  };
+  const byDate = (a: DailyAssignment, b: DailyAssignment) => a.date.getTime() - b.date.getTime();
+  
+  if (readTo === planEnd) {
+    return [...history, todaysReading, ...catchUps].sort(byDate);
+  }
+  
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  
+  const remainderGoal: UserGoal =
+    mode === 'lower-load' && later.length > 0
+      ? { ...goal, planningMode: 'deadline', deadline: later[later.length - 1].date }
+      : {
+          ...goal,
+          planningMode: 'daily-amount',
+          dailyAmount:
+            goal.planningMode === 'deadline'
+              ? calculateRequiredPace(goal).minimumDailyAmount
+              : goal.dailyAmount,
+        };
+  
+  const remainder = generatePlan({
+    ...remainderGoal,
+    startFrom: offsetRef(readTo, 1) ?? readTo,
+    startDate: tomorrow,
+  });
+  
+  return [...history, todaysReading, ...remainder, ...catchUps].sort(byDate);
+};
+
+/**
+ * Get the first ayah not yet read in a plan, or null if everything is read
+ */
+export const getFirstUnreadAyah = (plan: DailyAssignment[]): QuranRef | null => {
+  const sorted = [...plan].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const firstUnread = sorted.find(a => !a.completed);
+  
+  if (!firstUnread) return null;
+  
+  return firstUnread.readUpTo ? offsetRef(firstUnread.readUpTo, 1) : firstUnread.fromAyah;
+};
+
+/**
+ * Get the parts of an ayah range that none of the given ranges cover, in order
+ */
+const subtractRanges = (range: AyahRange, covered: AyahRange[]): AyahRange[] => {
+  const remaining: AyahRange[] = [];
+  let fromAyah: QuranRef | null = range.fromAyah;
+  
+  for (const part of [...covered].sort((a, b) => a.fromAyah - b.fromAyah)) {
+    if (!fromAyah || part.fromAyah > range.toAyah) break;
+    if (part.toAyah < fromAyah) continue;
+    
+    if (part.fromAyah > fromAyah) {
+      remaining.push({ fromAyah, toAyah: offsetRef(part.fromAyah, -1) ?? fromAyah });
+    }
+    fromAyah = part.toAyah < range.toAyah ? offsetRef(part.toAyah, 1) : null;
+  }
+  
+  if (fromAyah) {
+    remaining.push({ fromAyah, toAyah: range.toAyah });
+  }
+  
+  return remaining;
+};
+
+/**
+ * Replan a revised goal from its first unread ayah, keeping what was read
+ * 
+ * Completed assignments are kept as they are, and a partially read one is
+ * trimmed to its bookmark and kept as completed. Everything unread after the
+ * first unread ayah is regenerated with the revised settings, starting no
+ * earlier than today. Ayahs read on a later day are left out, so the unread
+ * ranges between them are planned one after another; a deadline then becomes
+ * the daily amount that covers all of them in time.
+ */
+export const replanFromFirstUnread = (
+  goal: UserGoal,
+  plan: DailyAssignment[],
+  fromDate: Date = new Date(),
+): DailyAssignment[] => {
+  const firstUnread = getFirstUnreadAyah(plan);
+  
+  const kept = plan
+    .filter(a => a.completed || a.readUpTo)
+    .map(a => a.completed ? a : {
+      ...a,
+      toAyah: a.readUpTo as QuranRef,
+      toPage: getPageOfRef(a.readUpTo as QuranRef),
+      completed: true,
+      readUpTo: undefined,
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  
+  if (!firstUnread) return kept;
+  
+  // Start the remainder after the last kept day, today and the goal's own start date
+  const startDate = startOfDay(fromDate);
+  const lastKept = kept[kept.length - 1];
+  if (lastKept && startOfDay(lastKept.date) >= startDate) {
+    startDate.setTime(startOfDay(lastKept.date).getTime());
+    startDate.setDate(startDate.getDate() + 1);
+  }
+  if (goal.startDate > startDate) {
+    startDate.setTime(startOfDay(goal.startDate).getTime());
+  }
+  
+  const unread = subtractRanges({ fromAyah: firstUnread, toAyah: getEndingAyah(goal) }, kept);
+  const rangeGoals = unread.map((targetRange): UserGoal => ({
+    ...goal,
+    target: 'ayah-range',
+    targetRange,
+    targetValue: undefined,
+    startFrom: undefined,
+  }));
+  
+  // Ranges planned one after another share a deadline through one daily amount
+  const readingDays = countReadingDaysUntilDeadline({ ...goal, startDate });
+  const pace: Partial<UserGoal> =
+    rangeGoals.length > 1 && goal.planningMode === 'deadline' && readingDays > 0
+      ? {
+          planningMode: 'daily-amount',
+          dailyAmount: Math.ceil(
+            rangeGoals.reduce((sum, rangeGoal) => sum + calculateTotalUnits(rangeGoal), 0) /
+              readingDays,
+          ),
+          dailyAmountsByWeekday: undefined,
+        }
+      : {};
+  
+  const remainder: DailyAssignment[] = [];
+  for (const rangeGoal of rangeGoals) {
+    const days = generatePlan({ ...rangeGoal, ...pace, startDate: new Date(startDate) });
+    remainder.push(...days);
+    
+    if (days.length > 0) {
+      startDate.setTime(startOfDay(days[days.length - 1].date).getTime());
+      startDate.setDate(startDate.getDate() + 1);
+    }
+  }
+  
+  return [...kept, ...remainder];
+};
+
+/**
+ * Push unread assignments that fall on paused days (and everything after them)
+ * onto the next reading days
+ * 
+ * Unread assignments sharing a date (a day's own reading and its catch-up
+ * reading) move together onto one day. Completed assignments keep their
+ * dates. The shifted plan may run past the goal's deadline.
+ */
+export const shiftPlanAroundPauses = (
+  goal: UserGoal,
+  plan: DailyAssignment[],
+): DailyAssignment[] => {
+  const sorted = [...plan].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const firstPaused = sorted.findIndex(a => !a.completed && isPausedDay(goal, a.date));
+  
+  if (firstPaused === -1) return sorted;
+  
+  const unchanged = sorted.filter((a, i) => i < firstPaused || a.completed);
+  const toShift = sorted.slice(firstPaused).filter(a => !a.completed);
+  
+  const days: DailyAssignment[][] = [];
+  for (const assignment of toShift) {
+    const day = days[days.length - 1];
+    if (day && startOfDay(day[0].date).getTime() === startOfDay(assignment.date).getTime()) {
+      day.push(assignment);
+    } else {
+      days.push([assignment]);
+    }
+  }
+  
+  const dates = collectDates(
+    sorted[firstPaused].date,
+    days.length,
+    date => isReadingDay(goal, date),
+    countPausedDays(goal),
+  );
+  
+  const shifted = days.flatMap((day, i) =>
+    day.map(assignment => ({ ...assignment, date: dates[i] ?? assignment.date })),
+  );
+  
+  return [...unchanged, ...shifted].sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Renumber a plan's pages in the active mushaf layout
+ * 
+ * Each assignment keeps its ayah range, so a page-based plan's days no
+ * longer cover whole pages of the new layout until the goal is revised.
+ */
+export const renumberPlanPages = (plan: DailyAssignment[]): DailyAssignment[] =>
+  plan.map(assignment => ({
+    ...assignment,
+    fromPage: getPageOfRef(assignment.fromAyah),
+    toPage: getPageOfRef(assignment.toAyah),
+  }));
+
+/**
+ * Weekday names, indexed like `daysOfWeek`
+ */
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Validate a user goal before generating a plan
+ */
+export const validateGoal = (goal: UserGoal): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  
+  // Check if daysOfWeek is not empty
+  if (goal.daysOfWeek.length === 0) {
+    errors.push('At least one day of the week must be selected');
+  }
+  
+  // Check if startDate is valid
+  const startDate = new Date(goal.startDate);
+  if (isNaN(startDate.getTime())) {
+    errors.push('Invalid start date');
+  }
+  
+  // Check that Hijri dates exist in the Hijri calendar
+  if (goal.hijriStartDate && !isValidHijriDate(goal.hijriStartDate)) {
+    errors.push('Invalid Hijri start date');
+  }
+  if (goal.hijriDeadline && !isValidHijriDate(goal.hijriDeadline)) {
+    errors.push('Invalid Hijri deadline');
+  }
+  
+  // Check if deadline is after start date (if provided)
+  if (goal.deadline) {
+    const deadline = new Date(goal.deadline);
+    if (isNaN(deadline.getTime())) {
+      errors.push('Invalid deadline');
+    } else if (deadline < startDate) {
+      errors.push('Deadline must be after start date');
+    }
+  }
+  
+  // Deadline-driven goals derive their daily amount from the deadline
+  if (goal.planningMode === 'deadline') {
+    if (!goal.deadline) {
+      errors.push('A deadline is required to plan by deadline');
+    } else if (countReadingDaysUntilDeadline(goal) === 0) {
+      errors.push('No reading days between start date and deadline');
+    }
+  } else {
+    // Check if dailyAmount is positive
+    if (goal.dailyAmount <= 0) {
+      errors.push('Daily amount must be greater than 0');
+    }
+    
+    // Check each weekday's own amount
+    for (const [weekday, amount] of Object.entries(goal.dailyAmountsByWeekday ?? {})) {
+      const dayName = WEEKDAY_NAMES[Number(weekday)];
+      
+      if (!dayName) {
+        errors.push(`"${weekday}" is not a weekday (0 = Sunday, 6 = Saturday)`);
+      } else if (amount === undefined || !(amount > 0)) {
+        errors.push(`Daily amount for ${dayName} must be greater than 0`);
+      }
+    }
+  }
+  
+  // Memorization is planned in small units that are each reviewed
+  if (goal.mode === 'memorization' && !['ayahs', 'pages', 'half-pages'].includes(goal.unit)) {
+    errors.push('Memorization goals must use ayahs, pages or half-pages');
+  }
+  
+  // Stopping points need at least one kind of boundary and a distance to move
+  if (goal.snapToStops) {
+    if (goal.snapToStops.boundaries.length === 0) {
+      errors.push('At least one kind of stopping point must be selected');
+    }
+    if (!(goal.snapToStops.tolerance >= 0)) {
+      errors.push('Stopping point tolerance must be 0 or more ayahs');
+    }
+  }
+  
+  // Check that pause periods do not end before they start
+  for (const period of goal.pausePeriods ?? []) {
+    if (startOfDay(period.endDate) < startOfDay(period.startDate)) {
+      errors.push('Pause period must not end before it starts');
+    }
+  }
+  
+  // Check target-specific validations
+  if (goal.target === 'specific-juz' || goal.target === 'specific-surah') {
+    if (!goal.targetValue) {
+      errors.push('Target value is required for specific juz or surah goals');
     } else {
       if (goal.target === 'specific-juz' && (goal.targetValue < 1 || goal.targetValue > 30)) {
         errors.push('Juz number must be between 1 and 30');
@@ -405,6 +1738,48 @@ export const validateGoal = (goal: UserGoal): { valid: boolean; errors: string[]
     }
   }
   
+  const divisionUnit = DIVISION_TARGETS[goal.target];
+  if (divisionUnit) {
+    const { count } = DIVISIONS[divisionUnit];
+    const label = { hizb: 'Hizb', rub: "Rub' al-hizb", manzil: 'Manzil' }[divisionUnit];
+    
+    if (!goal.targetValue) {
+      errors.push(`Target value is required for specific ${label.toLowerCase()} goals`);
+    } else if (goal.targetValue < 1 || goal.targetValue > count) {
+      errors.push(`${label} number must be between 1 and ${count}`);
+    }
+  }
+  
+  if (goal.target === 'ayah-range') {
+    if (!goal.targetRange) {
+      errors.push('An ayah range is required for ayah range goals');
+    } else {
+      const { fromAyah, toAyah } = goal.targetRange;
+      
+      if (!isQuranRef(fromAyah)) {
+        errors.push(`Range start "${fromAyah}" is not a valid ayah`);
+      }
+      if (!isQuranRef(toAyah)) {
+        errors.push(`Range end "${toAyah}" is not a valid ayah`);
+      }
+      if (isQuranRef(fromAyah) && isQuranRef(toAyah) && fromAyah > toAyah) {
+        errors.push('Range start must not come after range end');
+      }
+    }
+  }
+  
+  // Check that a resume position lies within the target
+  if (goal.startFrom !== undefined) {
+    if (!isQuranRef(goal.startFrom)) {
+      errors.push(`Start position "${goal.startFrom}" is not a valid ayah`);
+    } else if (
+      goal.startFrom < getTargetStartAyah(goal) ||
+      goal.startFrom > getEndingAyah(goal)
+    ) {
+      errors.push('Start position must be within the target');
+    }
+  }
+  
   return {
     valid: errors.length === 0,
     errors,
@@ -0,0 +1,177 @@
+/**
+ * Hijri Calendar
+ *
+ * Offline conversion between Gregorian and Hijri dates using the tabular
+ * (arithmetic) Islamic calendar: a 30-year cycle with 11 leap years.
+ * The calculation can be a day or two off local moon sighting, so every
+ * conversion takes a day offset the user can adjust.
+ */
+
+import { HijriDate, UserGoal } from '@/types';
+
+/** Transliterated names of the Hijri months, indexed from Muharram (1) */
+export const HIJRI_MONTH_NAMES = [
+  'Muharram',
+  'Safar',
+  "Rabi' al-Awwal",
+  "Rabi' al-Thani",
+  'Jumada al-Ula',
+  'Jumada al-Akhirah',
+  'Rajab',
+  "Sha'ban",
+  'Ramadan',
+  'Shawwal',
+  "Dhu al-Qi'dah",
+  'Dhu al-Hijjah',
+];
+
+/** Julian day number of 1 Muharram 1 AH (civil epoch, 16 July 622) */
+const HIJRI_EPOCH = 1948440;
+
+/** Julian day number of 1 January 1970 */
+const UNIX_EPOCH = 2440588;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Get the Julian day number of a Gregorian date (using its local calendar day)
+ */
+const toJulianDay = (date: Date): number => {
+  return (
+    Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MS_PER_DAY) +
+    UNIX_EPOCH
+  );
+};
+
+/**
+ * Get the local-midnight Gregorian date of a Julian day number
+ */
+const fromJulianDay = (julianDay: number): Date => {
+  const utc = new Date((julianDay - UNIX_EPOCH) * MS_PER_DAY);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
+
+/**
+ * Get the Julian day number of a tabular Hijri date
+ */
+const hijriToJulianDay = ({ year, month, day }: HijriDate): number => {
+  return (
+    day +
+    Math.ceil(29.5 * (month - 1)) +
+    (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) +
+    HIJRI_EPOCH -
+    1
+  );
+};
+
+/**
+ * Check whether a Hijri year has 355 days (Dhu al-Hijjah has 30)
+ */
+export const isHijriLeapYear = (year: number): boolean => {
+  return (14 + 11 * year) % 30 < 11;
+};
+
+/**
+ * Get the number of days (29 or 30) in a Hijri month
+ */
+export const getHijriMonthLength = (year: number, month: number): number => {
+  if (month === 12) {
+    return isHijriLeapYear(year) ? 30 : 29;
+  }
+  
+  return month % 2 === 1 ? 30 : 29;
+};
+
+/**
+ * Check whether a Hijri date exists in the tabular calendar
+ */
+export const isValidHijriDate = (hijri: HijriDate): boolean => {
+  return (
+    Number.isInteger(hijri.year) &&
+    Number.isInteger(hijri.month) &&
+    Number.isInteger(hijri.day) &&
+    hijri.year >= 1 &&
+    hijri.month >= 1 &&
+    hijri.month <= 12 &&
+    hijri.day >= 1 &&
+    hijri.day <= getHijriMonthLength(hijri.year, hijri.month)
+  );
+};
+
+/**
+ * Convert a Gregorian date to its Hijri date
+ *
+ * @param offset - Days to add to the calculated Hijri date (e.g. 1 if the
+ *   month began a day earlier locally than the calculation says)
+ */
+export const toHijri = (date: Date, offset = 0): HijriDate => {
+  const julianDay = toJulianDay(date) + offset;
+  
+  const year = Math.floor((30 * (julianDay - HIJRI_EPOCH) + 10646) / 10631);
+  const month = Math.min(
+    12,
+    Math.ceil((julianDay - (29 + hijriToJulianDay({ year, month: 1, day: 1 }))) / 29.5) + 1,
+  );
+  const day = julianDay - hijriToJulianDay({ year, month, day: 1 }) + 1;
+  
+  return { year, month, day };
+};
+
+/**
+ * Convert a Hijri date to the Gregorian date (local midnight) it falls on
+ *
+ * @param offset - The same day offset passed to `toHijri`
+ */
+export const fromHijri = (hijri: HijriDate, offset = 0): Date => {
+  return fromJulianDay(hijriToJulianDay(hijri) - offset);
+};
+
+/**
+ * Get the first and last Gregorian days of a Hijri month (e.g. Ramadan 1446)
+ */
+export const getHijriMonthRange = (
+  year: number,
+  month: number,
+  offset = 0,
+): { startDate: Date; endDate: Date } => {
+  return {
+    startDate: fromHijri({ year, month, day: 1 }, offset),
+    endDate: fromHijri({ year, month, day: getHijriMonthLength(year, month) }, offset),
+  };
+};
+
+/**
+ * Get the first day of a Hijri month's next occurrence, counting a date that is
+ * itself the first day (e.g. the coming 1 Ramadan)
+ */
+export const getNextHijriMonthStart = (date: Date, month: number, offset = 0): Date => {
+  const hijri = toHijri(date, offset);
+  const isThisYear = hijri.month < month || (hijri.month === month && hijri.day === 1);
+  
+  return fromHijri({ year: isThisYear ? hijri.year : hijri.year + 1, month, day: 1 }, offset);
+};
+
+/**
+ * Format a Hijri date for display (e.g. "27 Ramadan 1446 AH")
+ */
+export const formatHijriDate = (hijri: HijriDate): string => {
+  return `${hijri.day} ${HIJRI_MONTH_NAMES[hijri.month - 1]} ${hijri.year} AH`;
+};
+
+/**
+ * Fill in a goal's Gregorian start date and deadline from its Hijri ones
+ *
+ * Goals without Hijri dates are returned unchanged.
+ */
+export const applyHijriDates = (goal: UserGoal, offset = 0): UserGoal => {
+  if (!goal.hijriStartDate && !goal.hijriDeadline) {
+    return goal;
+  }
+  
+  return {
+    ...goal,
+    startDate: goal.hijriStartDate ? fromHijri(goal.hijriStartDate, offset) : goal.startDate,
+    deadline: goal.hijriDeadline ? fromHijri(goal.hijriDeadline, offset) : goal.deadline,
+  };
+};
@@ -0,0 +1,173 @@
+/**
+ * Plan Templates
+ * 
+ * Catalogue of common reading plans that turn into ready-made goals,
+ * so users do not have to build them by hand in the setup screen.
+ */
+
+import { PlanTemplate, UserGoal } from '@/types';
+import { getNextHijriMonthStart } from '@/lib/hijri';
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const RAMADAN = 9;
+
+/**
+ * Get the date a number of days after another
+ */
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Build a deadline-driven goal that reads the target every day between two dates
+ */
+const buildDeadlineGoal = (
+  id: string,
+  target: Pick<UserGoal, 'target' | 'targetValue'>,
+  startDate: Date,
+  deadline: Date,
+): UserGoal => ({
+  id,
+  ...target,
+  unit: 'pages',
+  dailyAmount: 1,
+  planningMode: 'deadline',
+  startDate: addDays(startDate, 0),
+  deadline,
+  daysOfWeek: EVERY_DAY,
+});
+
+/**
+ * Built-in plan templates
+ */
+export const PLAN_TEMPLATES: PlanTemplate[] = [
+  {
+    id: 'ramadan-khatm',
+    name: 'Ramadan khatm in 30 days',
+    description: 'Read the whole Quran once over the nights of Ramadan',
+    parameters: [{ key: 'days', label: 'Days', defaultValue: 30, min: 1, max: 30 }],
+    hijriStartMonth: RAMADAN,
+    build: (startDate, { days }) => [
+      buildDeadlineGoal(
+        `ramadan-khatm-${startDate.getTime()}`,
+        { target: 'whole-quran' },
+        startDate,
+        addDays(startDate, days - 1),
+      ),
+    ],
+  },
+  {
+    id: 'yearly-khatm',
+    name: 'Khatm in a year',
+    description: 'Read the whole Quran once over a year, a little every day',
+    parameters: [{ key: 'months', label: 'Months', defaultValue: 12, min: 1, max: 24 }],
+    build: (startDate, { months }) => {
+      const deadline = addDays(startDate, 0);
+      deadline.setMonth(deadline.getMonth() + months);
+      deadline.setDate(deadline.getDate() - 1);
+      
+      return [
+        buildDeadlineGoal(
+          `yearly-khatm-${startDate.getTime()}`,
+          { target: 'whole-quran' },
+          startDate,
+          deadline,
+        ),
+      ];
+    },
+  },
+  {
+    id: 'juz-amma',
+    name: "Juz 'Amma in 2 weeks",
+    description: 'Read the 30th juz, from An-Naba to An-Nas',
+    parameters: [{ key: 'days', label: 'Days', defaultValue: 14, min: 1, max: 60 }],
+    build: (startDate, { days }) => [
+      buildDeadlineGoal(
+        `juz-amma-${startDate.getTime()}`,
+        { target: 'specific-juz', targetValue: 30 },
+        startDate,
+        addDays(startDate, days - 1),
+      ),
+    ],
+  },
+  {
+    id: 'ramadan-double-khatm',
+    name: 'Two khatms in Ramadan',
+    description: 'Read the whole Quran twice in Ramadan, one khatm after the other',
+    parameters: [{ key: 'days', label: 'Days', defaultValue: 30, min: 2, max: 30 }],
+    hijriStartMonth: RAMADAN,
+    build: (startDate, { days }) => {
+      const firstKhatmDays = Math.ceil(days / 2);
+      
+      return [
+        buildDeadlineGoal(
+          `ramadan-khatm-1-${startDate.getTime()}`,
+          { target: 'whole-quran' },
+          startDate,
+          addDays(startDate, firstKhatmDays - 1),
+        ),
+        buildDeadlineGoal(
+          `ramadan-khatm-2-${startDate.getTime()}`,
+          { target: 'whole-quran' },
+          addDays(startDate, firstKhatmDays),
+          addDays(startDate, days - 1),
+        ),
+      ];
+    },
+  },
+];
+
+/**
+ * Get a built-in template by its ID
+ */
+export const getTemplateById = (templateId: string): PlanTemplate | null => {
+  return PLAN_TEMPLATES.find(template => template.id === templateId) || null;
+};
+
+/**
+ * Get a template's parameter values, filling in defaults and clamping to each parameter's range
+ */
+export const resolveTemplateValues = (
+  template: PlanTemplate,
+  values: Record<string, number> = {},
+): Record<string, number> => {
+  const resolved: Record<string, number> = {};
+  
+  for (const parameter of template.parameters) {
+    const value = values[parameter.key];
+    resolved[parameter.key] = Number.isFinite(value)
+      ? Math.min(Math.max(Math.round(value), parameter.min), parameter.max)
+      : parameter.defaultValue;
+  }
+  
+  return resolved;
+};
+
+/**
+ * Get the date a template starts on unless the user picks another:
+ * today, or the next first day of its Hijri month
+ */
+export const getTemplateStartDate = (
+  template: PlanTemplate,
+  today: Date = new Date(),
+  hijriOffset = 0,
+): Date => {
+  return template.hijriStartMonth
+    ? getNextHijriMonthStart(today, template.hijriStartMonth, hijriOffset)
+    : addDays(today, 0);
+};
+
+/**
+ * Build the goals of a template starting on a date
+ */
+export const buildGoalsFromTemplate = (
+  template: PlanTemplate,
+  startDate: Date,
+  values: Record<string, number> = {},
+): UserGoal[] => {
+  return template.build(startDate, resolveTemplateValues(template, values));
+};
@@ -0,0 +1,146 @@
+/**
+ * Quran References
+ * 
+ * Helpers for `QuranRef`, the validated position of an ayah as its absolute
+ * index in the mushaf (1 = 1:1, 6236 = 114:6). References compare and
+ * subtract as plain numbers; use these helpers to create them, move them
+ * and convert them to and from "surah:ayah" strings.
+ */
+
+import { QuranRef } from '@/types';
+import {
+  getAyahIdForReference,
+  getSurahAyahForId,
+  getPageForAyahId,
+  getJuzForAyahId,
+} from '@/services/quranData';
+
+/** Number of ayahs in the Quran */
+export const TOTAL_AYAHS = 6236;
+
+/** Al-Fatihah, ayah 1 */
+export const FIRST_REF = 1 as QuranRef;
+
+/** An-Nas, ayah 6 */
+export const LAST_REF = TOTAL_AYAHS as QuranRef;
+
+const REFERENCE_PATTERN = /^(\d{1,3}):(\d{1,3})$/;
+
+/**
+ * Check whether a value is a valid reference (an absolute ayah index from 1 to 6236)
+ */
+export const isQuranRef = (value: unknown): value is QuranRef => {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= TOTAL_AYAHS;
+};
+
+/**
+ * Get the reference for an absolute ayah index, or null if there is no such ayah
+ */
+export const toQuranRef = (ayahId: number): QuranRef | null => {
+  return isQuranRef(ayahId) ? ayahId : null;
+};
+
+/**
+ * Get the reference for a surah and ayah number, or null if there is no such ayah
+ */
+export const quranRef = (surahId: number, ayahNumber: number): QuranRef | null => {
+  return parseQuranRef(`${surahId}:${ayahNumber}`);
+};
+
+/**
+ * Parse a "surah:ayah" string (e.g. "2:255"), or null if it is not a real ayah
+ */
+export const parseQuranRef = (value: string): QuranRef | null => {
+  if (!REFERENCE_PATTERN.test(value)) {
+    return null;
+  }
+  
+  const ayahId = getAyahIdForReference(value);
+  return ayahId ? toQuranRef(ayahId) : null;
+};
+
+/**
+ * Format a reference as a "surah:ayah" string
+ */
+export const formatQuranRef = (ref: QuranRef): string => {
+  const { surahId, ayahNumber } = getSurahAndAyah(ref);
+  return `${surahId}:${ayahNumber}`;
+};
+
+/**
+ * Get the surah and ayah numbers of a reference
+ */
+export const getSurahAndAyah = (ref: QuranRef): { surahId: number; ayahNumber: number } => {
+  return getSurahAyahForId(ref) ?? { surahId: 1, ayahNumber: 1 };
+};
+
+/**
+ * Compare two references in reading order, for sorting
+ */
+export const compareRefs = (a: QuranRef, b: QuranRef): number => {
+  return a - b;
+};
+
+/**
+ * Move a reference forward (or back, for a negative count) by a number of ayahs
+ * 
+ * Returns null when that would go past either end of the Quran.
+ */
+export const offsetRef = (ref: QuranRef, count: number): QuranRef | null => {
+  return toQuranRef(ref + count);
+};
+
+/**
+ * Get the number of ayahs from one reference to another (negative if `to` comes first)
+ */
+export const ayahDistance = (from: QuranRef, to: QuranRef): number => {
+  return to - from;
+};
+
+/**
+ * Get the later of two references
+ */
+export const maxRef = (a: QuranRef, b: QuranRef): QuranRef => {
+  return a > b ? a : b;
+};
+
+/**
+ * Get the earlier of two references
+ */
+export const minRef = (a: QuranRef, b: QuranRef): QuranRef => {
+  return a < b ? a : b;
+};
+
+/**
+ * Get the page a reference is on in the active mushaf layout
+ */
+export const getPageOfRef = (ref: QuranRef): number => {
+  return getPageForAyahId(ref) ?? 1;
+};
+
+/**
+ * Get the juz (1-30) a reference is in
+ */
+export const getJuzOfRef = (ref: QuranRef): number => {
+  return getJuzForAyahId(ref) ?? 1;
+};
+
+/**
+ * Get the surah (1-114) a reference is in
+ */
+export const getSurahOfRef = (ref: QuranRef): number => {
+  return getSurahAndAyah(ref).surahId;
+};
+
+/**
+ * Get every reference from `from` to `to`, inclusive (empty if `to` comes first)
+ */
+export const getRefsInRange = (from: QuranRef, to: QuranRef): QuranRef[] => {
+  const refs: QuranRef[] = [];
+  
+  for (let ayahId: number = from; ayahId <= to; ayahId++) {
+    refs.push(ayahId as QuranRef);
+  }
+  
+  return refs;
+};
@@ -0,0 +1,143 @@
+/**
+ * Recurring Reading Routines
+ * 
+ * Pure logic for routines that repeat on matching weekdays with no end,
+ * such as Al-Kahf on Fridays or Al-Mulk every night.
+ */
+
+import { DailyAssignment, ReadingRoutine } from '@/types';
+import { getSurahById } from '@/services/quranData';
+import { quranRef } from '@/lib/quranRef';
+
+/**
+ * Common sunnah routines, ready to be given an ID and start date
+ */
+export const ROUTINE_PRESETS: Omit<ReadingRoutine, 'id' | 'startDate'>[] = [
+  { name: 'Al-Kahf on Fridays', surahIds: [18], daysOfWeek: [5] },
+  { name: 'As-Sajdah and Al-Mulk nightly', surahIds: [32, 67], daysOfWeek: [0, 1, 2, 3, 4, 5, 6] },
+  { name: "Al-Waqi'ah in the evening", surahIds: [56], daysOfWeek: [0, 1, 2, 3, 4, 5, 6] },
+];
+
+/**
+ * Get the local "YYYY-MM-DD" key of a date
+ */
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Get a copy of a date reset to the start of its day
+ */
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Check whether a routine is read on a date
+ */
+export const isRoutineDay = (routine: ReadingRoutine, date: Date): boolean => {
+  return (
+    startOfDay(date) >= startOfDay(routine.startDate) &&
+    routine.daysOfWeek.includes(date.getDay())
+  );
+};
+
+/**
+ * Get a routine's assignments for a date: one per surah, or none if it is not read that day
+ */
+export const getRoutineAssignments = (
+  routine: ReadingRoutine,
+  date: Date,
+  completedDays: string[] = [],
+): DailyAssignment[] => {
+  if (!isRoutineDay(routine, date)) return [];
+  
+  const completed = completedDays.includes(toDayKey(date));
+  const assignments: DailyAssignment[] = [];
+  
+  for (const surahId of routine.surahIds) {
+    const surah = getSurahById(surahId);
+    const fromAyah = quranRef(surahId, 1);
+    const toAyah = surah && quranRef(surahId, surah.ayahCount);
+    if (!surah || !fromAyah || !toAyah) continue;
+    
+    assignments.push({
+      date: startOfDay(date),
+      fromAyah,
+      toAyah,
+      fromPage: surah.startPage,
+      toPage: surah.endPage,
+      completed,
+      isCatchUpDay: false,
+    });
+  }
+  
+  return assignments;
+};
+
+/**
+ * Calculate a routine's streaks over its matching days up to today
+ * 
+ * Today counts once it is completed, but an unread today does not break
+ * the current streak until the day is over.
+ */
+export const calculateRoutineStreaks = (
+  routine: ReadingRoutine,
+  completedDays: string[],
+  fromDate: Date = new Date(),
+): { current: number; best: number } => {
+  const today = startOfDay(fromDate);
+  const completed = new Set(completedDays);
+  const currentDate = startOfDay(routine.startDate);
+  
+  let currentStreak = 0;
+  let bestStreak = 0;
+  
+  while (currentDate <= today) {
+    if (routine.daysOfWeek.includes(currentDate.getDay())) {
+      if (completed.has(toDayKey(currentDate))) {
+        currentStreak++;
+        bestStreak = Math.max(bestStreak, currentStreak);
+      } else if (currentDate < today) {
+        currentStreak = 0;
+      }
+    }
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+  
+  return { current: currentStreak, best: bestStreak };
+};
+
+/**
+ * Validate a routine before it is added
+ */
+export const validateRoutine = (routine: ReadingRoutine): { valid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  
+  if (routine.surahIds.length === 0) {
+    errors.push('At least one surah must be selected');
+  }
+  
+  for (const surahId of routine.surahIds) {
+    if (!Number.isInteger(surahId) || surahId < 1 || surahId > 114) {
+      errors.push('Surah number must be between 1 and 114');
+    }
+  }
+  
+  if (routine.daysOfWeek.length === 0) {
+    errors.push('At least one day of the week must be selected');
+  }
+  
+  if (isNaN(new Date(routine.startDate).getTime())) {
+    errors.push('Invalid start date');
+  }
+  
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+};
@@ -0,0 +1,91 @@
+/**
+ * Spaced Repetition
+ * 
+ * SM-2 review scheduling for memorized portions. After each review the user
+ * grades their recall from 0 to 5; good recall pushes the next review further
+ * out, while a lapse (below 3) starts the portion's schedule over.
+ */
+
+import { AyahRange, RecallGrade, ReviewItem } from '@/types';
+
+/** Ease factor given to newly memorized portions */
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+/** Lowest ease factor SM-2 allows */
+export const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * Get the start of the day a number of days after a date
+ */
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Start the review schedule of a newly memorized portion, first due the next day
+ */
+export const createReviewItem = (range: AyahRange, memorizedOn: Date): ReviewItem => ({
+  fromAyah: range.fromAyah,
+  toAyah: range.toAyah,
+  repetitions: 0,
+  easeFactor: DEFAULT_EASE_FACTOR,
+  interval: 0,
+  dueDate: addDays(memorizedOn, 1),
+});
+
+/**
+ * Reschedule a portion after a review using the SM-2 algorithm
+ */
+export const gradeReview = (
+  item: ReviewItem,
+  grade: RecallGrade,
+  reviewedOn: Date = new Date(),
+): ReviewItem => {
+  // Ease changes with every review, by more the worse the recall
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    item.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+  );
+  
+  let repetitions: number;
+  let interval: number;
+  
+  if (grade < 3) {
+    // A lapse: review again tomorrow and rebuild the interval
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = item.repetitions + 1;
+    
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(item.interval * item.easeFactor);
+    }
+  }
+  
+  return {
+    ...item,
+    repetitions,
+    easeFactor,
+    interval,
+    dueDate: addDays(reviewedOn, interval),
+    lastReviewedAt: reviewedOn,
+  };
+};
+
+/**
+ * Get the portions due for review on a date (including overdue ones), most overdue first
+ */
+export const getDueReviews = (items: ReviewItem[], date: Date = new Date()): ReviewItem[] => {
+  const endOfDay = addDays(date, 1);
+  
+  return items
+    .filter(item => item.dueDate < endOfDay)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+};
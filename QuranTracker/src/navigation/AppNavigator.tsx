@@ -5,7 +5,7 @@
  */
 
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, NavigatorScreenParams } from '@react-navigation/native';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { createStackNavigator } from '@react-navigation/stack';
 import { useTheme } from 'react-native-paper';
@@ -15,18 +15,27 @@ import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import DashboardScreen from '@/screens/DashboardScreen';
 import GoalSetupScreen from '@/screens/GoalSetupScreen';
 import CalendarScreen from '@/screens/CalendarScreen';
+import AssignmentReaderScreen from '@/screens/AssignmentReaderScreen';
 import SettingsScreen from '@/screens/SettingsScreen';
 
 // Navigation types
 export type RootTabParamList = {
   Dashboard: undefined;
-  Plan: undefined;
+  Plan: NavigatorScreenParams<PlanStackParamList> | undefined;
   Settings: undefined;
 };
 
 export type PlanStackParamList = {
   GoalSetup: undefined;
   CalendarView: undefined;
+  AssignmentReader: {
+    /** Goal the assignment belongs to (defaults to the active goal) */
+    goalId?: string;
+    /** Assignment date as an ISO string */
+    date: string;
+    fromAyah: string;
+    toAyah: string;
+  };
 };
 
 const Tab = createBottomTabNavigator<RootTabParamList>();
@@ -61,6 +70,11 @@ const PlanStackNavigator = () => {
         component={CalendarScreen}
         options={{ title: 'Reading Plan' }}
       />
+      <PlanStack.Screen
+        name="AssignmentReader"
+        component={AssignmentReaderScreen}
+        options={{ title: 'Read' }}
+      />
     </PlanStack.Navigator>
   );
 };
@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet, FlatList } from 'react-native';
+import { Text, Button, Switch } from 'react-native-paper';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { PlanStackParamList } from '@/navigation/AppNavigator';
+import { useGoalStore } from '@/store/useGoalStore';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import { parseQuranRef } from '@/lib/quranRef';
+import {
+  getTextForRange,
+  getSurahNameTranslation,
+  BISMILLAH,
+  TRANSLATIONS,
+} from '@/services/quranText';
+
+const AssignmentReaderScreen = () => {
+  const navigation = useNavigation<StackNavigationProp<PlanStackParamList>>();
+  const { params } = useRoute<RouteProp<PlanStackParamList, 'AssignmentReader'>>();
+  const markAssignmentComplete = useGoalStore(state => state.markAssignmentComplete);
+  const translationLanguage = useSettingsStore(state => state.translationLanguage);
+  const showTranslation = useSettingsStore(state => state.showTranslation);
+  const updateSettings = useSettingsStore(state => state.updateSettings);
+  
+  // Translations are only loaded once the user turns them on
+  const sections = useMemo(
+    () =>
+      getTextForRange(
+        params.fromAyah,
+        params.toAyah,
+        showTranslation ? translationLanguage : undefined,
+      ),
+    [params.fromAyah, params.toAyah, showTranslation, translationLanguage],
+  );
+  
+  // The button sits after the last ayah, so it is reached by reading to the end.
+  // Only this assignment is marked, as the day may also hold catch-up reading.
+  const markDone = () => {
+    const fromAyah = parseQuranRef(params.fromAyah);
+    if (fromAyah) {
+      markAssignmentComplete(new Date(params.date), fromAyah, params.goalId);
+    }
+    navigation.goBack();
+  };
+  
+  return (
+    <FlatList
+      contentContainerStyle={styles.container}
+      data={sections}
+      keyExtractor={section => String(section.surahId)}
+      ListHeaderComponent={
+        <View>
+          <Text variant="bodyMedium" style={styles.range}>
+            {params.fromAyah} – {params.toAyah}
+          </Text>
+          <View style={styles.toggle}>
+            <Text variant="bodyMedium">
+              {TRANSLATIONS[translationLanguage].name} translation
+            </Text>
+            <Switch
+              value={showTranslation}
+              onValueChange={value => updateSettings({ showTranslation: value })}
+            />
+          </View>
+        </View>
+      }
+      renderItem={({ item: section }) => (
+        <View style={styles.section}>
+          {section.ayahs[0]?.ayahNumber === 1 && (
+            <Text variant="titleLarge" style={styles.surahHeader}>
+              {section.name} ({section.transliteration})
+            </Text>
+          )}
+          {section.ayahs[0]?.ayahNumber === 1 && showTranslation && (
+            <Text variant="bodyMedium" style={styles.surahHeader}>
+              {getSurahNameTranslation(section.surahId, translationLanguage)}
+            </Text>
+          )}
+          {section.showBismillah && (
+            <Text variant="titleMedium" style={styles.bismillah}>
+              {BISMILLAH}
+            </Text>
+          )}
+          {section.ayahs.map(ayah => (
+            <View key={ayah.key}>
+              <Text variant="bodyLarge" style={styles.ayah}>
+                {ayah.text} ﴿{ayah.ayahNumber}﴾
+              </Text>
+              {ayah.translation && (
+                <Text variant="bodyMedium" style={styles.translation}>
+                  {ayah.ayahNumber}. {ayah.translation}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+      ListFooterComponent={
+        <Button mode="contained" onPress={markDone} style={styles.doneButton}>
+          Mark as done
+        </Button>
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+  },
+  range: {
+    textAlign: 'center',
+  },
+  toggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  section: {
+    marginVertical: 8,
+  },
+  surahHeader: {
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  bismillah: {
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  ayah: {
+    writingDirection: 'rtl',
+    textAlign: 'right',
+    lineHeight: 36,
+    marginVertical: 4,
+  },
+  translation: {
+    marginBottom: 8,
+  },
+  doneButton: {
+    marginTop: 16,
+  },
+});
+
+export default AssignmentReaderScreen;
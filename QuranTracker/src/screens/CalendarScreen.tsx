@@ -1,12 +1,57 @@
 import React from 'react';
-import { View, StyleSheet } from 'react-native';
-import { Text } from 'react-native-paper';
+import { View, StyleSheet, FlatList } from 'react-native';
+import { Text, TouchableRipple } from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { PlanStackParamList } from '@/navigation/AppNavigator';
+import { useGoalStore } from '@/store/useGoalStore';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import { toHijri, formatHijriDate } from '@/lib/hijri';
+import { formatQuranRef } from '@/lib/quranRef';
 
 const CalendarScreen = () => {
+  const navigation = useNavigation<StackNavigationProp<PlanStackParamList>>();
+  const plan = useGoalStore(state => state.getActiveGoal()?.plan);
+  const showHijriDates = useSettingsStore(state => state.showHijriDates);
+  const hijriOffset = useSettingsStore(state => state.hijriOffset);
+  
   return (
     <View style={styles.container}>
       <Text variant="headlineMedium">Calendar</Text>
       <Text variant="bodyMedium">View your reading plan</Text>
+      
+      <FlatList
+        style={styles.list}
+        data={plan ?? []}
+        keyExtractor={(assignment, index) => `${assignment.date.toISOString()}-${index}`}
+        renderItem={({ item: assignment }) => (
+          <TouchableRipple
+            style={styles.row}
+            onPress={() =>
+              navigation.navigate('AssignmentReader', {
+                date: assignment.date.toISOString(),
+                fromAyah: formatQuranRef(assignment.fromAyah),
+                toAyah: formatQuranRef(assignment.toAyah),
+              })
+            }
+          >
+            <View>
+              <Text variant="bodyMedium">
+                {assignment.date.toDateString()}
+                {assignment.completed ? ' ✓' : ''}
+              </Text>
+              {showHijriDates && (
+                <Text variant="bodySmall">
+                  {formatHijriDate(toHijri(assignment.date, hijriOffset))}
+                </Text>
+              )}
+              <Text variant="bodySmall">
+                {formatQuranRef(assignment.fromAyah)} – {formatQuranRef(assignment.toAyah)}
+              </Text>
+            </View>
+          </TouchableRipple>
+        )}
+      />
     </View>
   );
 };
@@ -18,6 +63,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
   },
+  list: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+  },
+  row: {
+    paddingVertical: 8,
+  },
 });
 
 export default CalendarScreen;
@@ -1,12 +1,129 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, StyleSheet } from 'react-native';
-import { Text } from 'react-native-paper';
+import { Text, ProgressBar, Checkbox, Button } from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import type { RootTabParamList } from '@/navigation/AppNavigator';
+import { useGoalStore } from '@/store/useGoalStore';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import { getAssignmentProgress } from '@/lib/goalCalculator';
+import { getDueReviews } from '@/lib/spacedRepetition';
+import { toHijri, formatHijriDate } from '@/lib/hijri';
+import { formatQuranRef } from '@/lib/quranRef';
+import { toDayKey } from '@/lib/routines';
+import { RecallGrade } from '@/types';
+
+// Self-graded recall options shown after each review
+const RECALL_GRADES: { label: string; grade: RecallGrade }[] = [
+  { label: 'Forgot', grade: 1 },
+  { label: 'Hard', grade: 3 },
+  { label: 'Good', grade: 4 },
+  { label: 'Easy', grade: 5 },
+];
 
 const DashboardScreen = () => {
+  const navigation = useNavigation<BottomTabNavigationProp<RootTabParamList>>();
+  const plan = useGoalStore(state => state.getActiveGoal()?.plan);
+  const progressPercentage = useGoalStore(state => state.getProgressPercentage());
+  const routines = useGoalStore(state => state.routines);
+  const markRoutineComplete = useGoalStore(state => state.markRoutineComplete);
+  const markRoutineIncomplete = useGoalStore(state => state.markRoutineIncomplete);
+  const routineAssignments = useGoalStore.getState().getTodaysRoutineAssignments();
+  const reviewItems = useGoalStore(state => state.getActiveGoal()?.reviewItems);
+  const gradeReview = useGoalStore(state => state.gradeReview);
+  const showHijriDates = useSettingsStore(state => state.showHijriDates);
+  const hijriOffset = useSettingsStore(state => state.hijriOffset);
+  
+  // Today's assignments and due reviews are new arrays on every call, so they
+  // are worked out here rather than in store selectors
+  const todaysAssignments = useMemo(() => {
+    const todayKey = toDayKey(new Date());
+    return (plan ?? []).filter(assignment => toDayKey(assignment.date) === todayKey);
+  }, [plan]);
+  const dueReviews = useMemo(() => getDueReviews(reviewItems ?? []), [reviewItems]);
+  
   return (
     <View style={styles.container}>
       <Text variant="headlineMedium">Dashboard</Text>
       <Text variant="bodyMedium">Welcome to Quran Tracker!</Text>
+      {showHijriDates && (
+        <Text variant="bodySmall">{formatHijriDate(toHijri(new Date(), hijriOffset))}</Text>
+      )}
+      
+      {todaysAssignments.map(assignment => {
+        const progress = getAssignmentProgress(assignment);
+        
+        return (
+          <View key={assignment.fromAyah} style={styles.section}>
+            <Text variant="titleMedium">
+              {assignment.isCatchUpDay ? 'Catch-up' : 'Today'}: {formatQuranRef(assignment.fromAyah)} –{' '}
+              {formatQuranRef(assignment.toAyah)}
+            </Text>
+            {assignment.readUpTo && !assignment.completed && (
+              <Text variant="bodySmall">
+                Read up to {formatQuranRef(assignment.readUpTo)}
+              </Text>
+            )}
+            <ProgressBar progress={progress} style={styles.progressBar} />
+            <Text variant="bodySmall">{Math.round(progress * 100)}% read</Text>
+            <Button
+              mode="contained"
+              style={styles.readButton}
+              onPress={() =>
+                navigation.navigate('Plan', {
+                  screen: 'AssignmentReader',
+                  params: {
+                    date: assignment.date.toISOString(),
+                    fromAyah: formatQuranRef(assignment.fromAyah),
+                    toAyah: formatQuranRef(assignment.toAyah),
+                  },
+                })
+              }
+            >
+              Read this portion
+            </Button>
+          </View>
+        );
+      })}
+      {todaysAssignments.length === 0 && (
+        <Text variant="bodyMedium">No reading scheduled for today</Text>
+      )}
+      
+      {dueReviews.map(review => (
+        <View key={review.fromAyah} style={styles.review}>
+          <Text variant="bodyMedium">
+            Review: {formatQuranRef(review.fromAyah)} – {formatQuranRef(review.toAyah)}
+          </Text>
+          <View style={styles.grades}>
+            {RECALL_GRADES.map(({ label, grade }) => (
+              <Button key={label} compact onPress={() => gradeReview(review.fromAyah, grade)}>
+                {label}
+              </Button>
+            ))}
+          </View>
+        </View>
+      ))}
+      
+      <Text variant="bodyMedium">Goal progress: {progressPercentage}%</Text>
+      
+      {routineAssignments.map(({ routineId, assignments }) => {
+        const record = routines[routineId];
+        const completed = assignments.every(a => a.completed);
+        
+        return (
+          <Checkbox.Item
+            key={routineId}
+            style={styles.routine}
+            status={completed ? 'checked' : 'unchecked'}
+            label={`${record.routine.name} (streak: ${record.currentStreak})`}
+            onPress={() =>
+              completed
+                ? markRoutineIncomplete(routineId, new Date())
+                : markRoutineComplete(routineId, new Date())
+            }
+          />
+        );
+      })}
     </View>
   );
 };
@@ -18,6 +135,28 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
   },
+  section: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  progressBar: {
+    width: 240,
+    marginVertical: 8,
+  },
+  routine: {
+    alignSelf: 'stretch',
+  },
+  readButton: {
+    marginTop: 8,
+  },
+  review: {
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  grades: {
+    flexDirection: 'row',
+  },
 });
 
 export default DashboardScreen;
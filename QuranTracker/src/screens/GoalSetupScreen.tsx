@@ -1,23 +1,192 @@
-import React from 'react';
-import { View, StyleSheet } from 'react-native';
-import { Text } from 'react-native-paper';
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, RadioButton, TextInput, Card, Button, Checkbox } from 'react-native-paper';
+import { useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { PlanStackParamList } from '@/navigation/AppNavigator';
+import { useGoalStore } from '@/store/useGoalStore';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import {
+  PLAN_TEMPLATES,
+  buildGoalsFromTemplate,
+  getTemplateById,
+  getTemplateStartDate,
+} from '@/lib/planTemplates';
+import { generatePlan, calculateRequiredPace } from '@/lib/goalCalculator';
+import { formatQuranRef } from '@/lib/quranRef';
+import { toDayKey } from '@/lib/routines';
+import { toHijri, formatHijriDate } from '@/lib/hijri';
+import { StopSnapping, UserGoal } from '@/types';
+
+/** Ways to balance the days of a plan */
+const WEIGHTINGS: { value: NonNullable<UserGoal['weighting']>; label: string }[] = [
+  { value: 'units', label: 'Units (pages, juz, ...)' },
+  { value: 'words', label: 'Words' },
+  { value: 'letters', label: 'Letters' },
+];
+
+/** Stopping points offered when ending days at a natural pause */
+const STOP_SNAPPING: StopSnapping = { boundaries: ['ruku', 'rub', 'surah'], tolerance: 5 };
+
+/** Parse a "YYYY-MM-DD" start date, or null if it is not a real day */
+const parseStartDate = (text: string): Date | null => {
+  const [year, month, day] = text.trim().split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return toDayKey(date) === text.trim() ? date : null;
+};
 
 const GoalSetupScreen = () => {
+  const navigation = useNavigation<StackNavigationProp<PlanStackParamList>>();
+  const addGoal = useGoalStore(state => state.addGoal);
+  const switchGoal = useGoalStore(state => state.switchGoal);
+  const showHijriDates = useSettingsStore(state => state.showHijriDates);
+  const hijriOffset = useSettingsStore(state => state.hijriOffset);
+  
+  const [templateId, setTemplateId] = useState(PLAN_TEMPLATES[0].id);
+  const [startDateText, setStartDateText] = useState(() =>
+    toDayKey(getTemplateStartDate(PLAN_TEMPLATES[0], new Date(), hijriOffset)),
+  );
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [weighting, setWeighting] = useState<NonNullable<UserGoal['weighting']>>('units');
+  const [snapToStops, setSnapToStops] = useState(false);
+  
+  const template = getTemplateById(templateId);
+  const startDate = useMemo(() => parseStartDate(startDateText), [startDateText]);
+  
+  // Preview the goals and plans the template would create from the start date
+  const preview = useMemo(() => {
+    if (!template || !startDate) return [];
+    
+    const numericValues: Record<string, number> = {};
+    for (const [key, value] of Object.entries(values)) {
+      numericValues[key] = Number(value);
+    }
+    
+    return buildGoalsFromTemplate(template, startDate, numericValues)
+      .map(goal => ({ ...goal, weighting, snapToStops: snapToStops ? STOP_SNAPPING : undefined }))
+      .map(goal => ({
+        goal,
+        plan: generatePlan(goal),
+        pace: calculateRequiredPace(goal),
+      }));
+  }, [template, startDate, values, weighting, snapToStops]);
+  
+  const selectTemplate = (id: string) => {
+    const selected = getTemplateById(id);
+    setTemplateId(id);
+    setValues({});
+    if (selected) {
+      setStartDateText(toDayKey(getTemplateStartDate(selected, new Date(), hijriOffset)));
+    }
+  };
+  
+  const saveGoals = () => {
+    preview.forEach(({ goal }) => addGoal(goal));
+    if (preview.length > 0) {
+      switchGoal(preview[0].goal.id);
+    }
+    navigation.navigate('CalendarView');
+  };
+  
   return (
-    <View style={styles.container}>
+    <ScrollView contentContainerStyle={styles.container}>
       <Text variant="headlineMedium">Goal Setup</Text>
       <Text variant="bodyMedium">Set your Quran reading goal</Text>
-    </View>
+      
+      <Text variant="titleMedium" style={styles.sectionTitle}>Templates</Text>
+      <RadioButton.Group onValueChange={selectTemplate} value={templateId}>
+        {PLAN_TEMPLATES.map(item => (
+          <RadioButton.Item key={item.id} label={item.name} value={item.id} />
+        ))}
+      </RadioButton.Group>
+      
+      {template && (
+        <View>
+          <Text variant="bodySmall">{template.description}</Text>
+          <TextInput
+            label="Start date (YYYY-MM-DD)"
+            value={startDateText}
+            onChangeText={setStartDateText}
+            error={!startDate}
+            style={styles.input}
+          />
+          {startDate && showHijriDates && (
+            <Text variant="bodySmall">{formatHijriDate(toHijri(startDate, hijriOffset))}</Text>
+          )}
+          {template.parameters.map(parameter => (
+            <TextInput
+              key={parameter.key}
+              label={`${parameter.label} (${parameter.min}-${parameter.max})`}
+              keyboardType="number-pad"
+              value={values[parameter.key] ?? String(parameter.defaultValue)}
+              onChangeText={text => setValues({ ...values, [parameter.key]: text })}
+              style={styles.input}
+            />
+          ))}
+        </View>
+      )}
+      
+      <Text variant="titleMedium" style={styles.sectionTitle}>Balance days by</Text>
+      <RadioButton.Group
+        onValueChange={value => setWeighting(value as NonNullable<UserGoal['weighting']>)}
+        value={weighting}
+      >
+        {WEIGHTINGS.map(item => (
+          <RadioButton.Item key={item.value} label={item.label} value={item.value} />
+        ))}
+      </RadioButton.Group>
+      <Checkbox.Item
+        label={`End days at a ruku', rub' or surah (up to ${STOP_SNAPPING.tolerance} ayahs away)`}
+        status={snapToStops ? 'checked' : 'unchecked'}
+        onPress={() => setSnapToStops(!snapToStops)}
+      />
+      
+      <Text variant="titleMedium" style={styles.sectionTitle}>Preview</Text>
+      {preview.map(({ goal, plan, pace }) => (
+        <Card key={goal.id} style={styles.card}>
+          <Card.Content>
+            <Text variant="bodyMedium">
+              {plan.length} reading days, finishing {plan[plan.length - 1]?.date.toDateString()}
+            </Text>
+            <Text variant="bodySmall">
+              About {pace.unitsPerDay.toFixed(1)} {goal.unit} a day
+            </Text>
+            {plan[0] && (
+              <Text variant="bodySmall">
+                First day: {formatQuranRef(plan[0].fromAyah)} – {formatQuranRef(plan[0].toAyah)}
+              </Text>
+            )}
+            {goal.snapToStops && (
+              <Text variant="bodySmall">
+                Days moved up to{' '}
+                {Math.max(0, ...plan.map(({ snapShift }) => Math.abs(snapShift?.end ?? 0)))} ayahs
+                from the even split
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+      ))}
+      
+      <Button mode="contained" onPress={saveGoals} disabled={preview.length === 0}>
+        Start {preview.length > 1 ? `${preview.length} goals` : 'goal'}
+      </Button>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
     padding: 20,
   },
+  sectionTitle: {
+    marginTop: 16,
+  },
+  input: {
+    marginTop: 8,
+  },
+  card: {
+    marginVertical: 8,
+  },
 });
 
 export default GoalSetupScreen;
@@ -1,23 +1,167 @@
-import React from 'react';
-import { View, StyleSheet } from 'react-native';
-import { Text } from 'react-native-paper';
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, RadioButton, Switch, Button, HelperText } from 'react-native-paper';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import { useGoalStore } from '@/store/useGoalStore';
+import { toHijri, formatHijriDate } from '@/lib/hijri';
+import { ROUTINE_PRESETS, validateRoutine } from '@/lib/routines';
+import { TRANSLATIONS } from '@/services/quranText';
+import { MUSHAF_LAYOUTS } from '@/services/mushafLayouts';
+import { MushafLayoutId, ReadingRoutine, TranslationLanguage } from '@/types';
+
+// Local moon sighting differs from the calculated calendar by a day or two at most
+const MAX_HIJRI_OFFSET = 2;
 
 const SettingsScreen = () => {
+  const mushafStyle = useSettingsStore(state => state.mushafStyle);
+  const translationLanguage = useSettingsStore(state => state.translationLanguage);
+  const showHijriDates = useSettingsStore(state => state.showHijriDates);
+  const hijriOffset = useSettingsStore(state => state.hijriOffset);
+  const updateSettings = useSettingsStore(state => state.updateSettings);
+  const routines = useGoalStore(state => state.routines);
+  const addRoutine = useGoalStore(state => state.addRoutine);
+  const archiveRoutine = useGoalStore(state => state.archiveRoutine);
+  const [routineErrors, setRoutineErrors] = useState<string[]>([]);
+  
+  const activeRoutines = Object.values(routines).filter(record => !record.archived);
+  
+  const addPresetRoutine = (preset: (typeof ROUTINE_PRESETS)[number]) => {
+    const startDate = new Date();
+    startDate.setHours(0, 0, 0, 0);
+    const routine: ReadingRoutine = { ...preset, id: `routine-${Date.now()}`, startDate };
+    
+    const { valid, errors } = validateRoutine(routine);
+    setRoutineErrors(errors);
+    if (valid) {
+      addRoutine(routine);
+    }
+  };
+  
   return (
-    <View style={styles.container}>
+    <ScrollView contentContainerStyle={styles.container}>
       <Text variant="headlineMedium">Settings</Text>
       <Text variant="bodyMedium">Customize your experience</Text>
-    </View>
+      
+      <View style={styles.section}>
+        <Text variant="titleMedium">Mushaf</Text>
+        <Text variant="bodySmall">
+          Page numbers follow this mushaf. Existing plans keep their daily ayah ranges until the
+          goal is revised.
+        </Text>
+        <RadioButton.Group
+          onValueChange={value => updateSettings({ mushafStyle: value as MushafLayoutId })}
+          value={mushafStyle}
+        >
+          {Object.values(MUSHAF_LAYOUTS).map(({ id, name }) => (
+            <RadioButton.Item key={id} label={name} value={id} />
+          ))}
+        </RadioButton.Group>
+      </View>
+      
+      <View style={styles.section}>
+        <Text variant="titleMedium">Translation</Text>
+        <RadioButton.Group
+          onValueChange={value =>
+            updateSettings({ translationLanguage: value as TranslationLanguage })
+          }
+          value={translationLanguage}
+        >
+          {Object.entries(TRANSLATIONS).map(([language, { name }]) => (
+            <RadioButton.Item key={language} label={name} value={language} />
+          ))}
+        </RadioButton.Group>
+      </View>
+      
+      <View style={styles.section}>
+        <Text variant="titleMedium">Hijri calendar</Text>
+        <View style={styles.row}>
+          <Text variant="bodyMedium">Show Hijri dates</Text>
+          <Switch
+            value={showHijriDates}
+            onValueChange={value => updateSettings({ showHijriDates: value })}
+          />
+        </View>
+        <View style={styles.row}>
+          <Text variant="bodyMedium">
+            Day offset: {hijriOffset > 0 ? `+${hijriOffset}` : hijriOffset}
+          </Text>
+          <View style={styles.row}>
+            <Button
+              compact
+              disabled={hijriOffset <= -MAX_HIJRI_OFFSET}
+              onPress={() => updateSettings({ hijriOffset: hijriOffset - 1 })}
+            >
+              −1
+            </Button>
+            <Button
+              compact
+              disabled={hijriOffset >= MAX_HIJRI_OFFSET}
+              onPress={() => updateSettings({ hijriOffset: hijriOffset + 1 })}
+            >
+              +1
+            </Button>
+          </View>
+        </View>
+        <Text variant="bodySmall">
+          Today is {formatHijriDate(toHijri(new Date(), hijriOffset))}; adjust the offset to
+          match your local moon sighting
+        </Text>
+      </View>
+      
+      <View style={styles.section}>
+        <Text variant="titleMedium">Routines</Text>
+        <Text variant="bodySmall">Surahs read again on the same weekdays, with their own streak</Text>
+        {activeRoutines.map(({ routine }) => (
+          <View key={routine.id} style={styles.row}>
+            <Text variant="bodyMedium">{routine.name}</Text>
+            <Button
+              compact
+              accessibilityLabel={`Remove ${routine.name}`}
+              onPress={() => archiveRoutine(routine.id)}
+            >
+              Remove
+            </Button>
+          </View>
+        ))}
+        {ROUTINE_PRESETS.map(preset => (
+          <View key={preset.name} style={styles.row}>
+            <Text variant="bodyMedium">{preset.name}</Text>
+            <Button
+              compact
+              accessibilityLabel={`Add ${preset.name}`}
+              disabled={activeRoutines.some(({ routine }) => routine.name === preset.name)}
+              onPress={() => addPresetRoutine(preset)}
+            >
+              Add
+            </Button>
+          </View>
+        ))}
+        {routineErrors.map(error => (
+          <HelperText key={error} type="error">
+            {error}
+          </HelperText>
+        ))}
+      </View>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
   },
+  section: {
+    alignSelf: 'stretch',
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
 });
 
 export default SettingsScreen;
@@ -0,0 +1,100 @@
+/**
+ * Render Tests for the Dashboard Screen
+ * 
+ * These tests verify the dashboard renders today's reading and reviews from the goal store.
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Text } from 'react-native';
+import DashboardScreen from '../DashboardScreen';
+import { useGoalStore } from '@/store/useGoalStore';
+import { formatQuranRef } from '@/lib/quranRef';
+import { UserGoal } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ navigate: jest.fn() }),
+}));
+
+// Rendering loads react-native-paper's components, which is slow without a transform cache
+jest.setTimeout(30000);
+
+const daysFromToday = (days: number): Date => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+const hifz: UserGoal = {
+  id: 'hifz',
+  target: 'specific-juz',
+  targetValue: 30,
+  mode: 'memorization',
+  unit: 'ayahs',
+  dailyAmount: 5,
+  startDate: daysFromToday(-1),
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+};
+
+/** Render the dashboard and collect all of its text */
+const renderDashboard = async (): Promise<string> => {
+  let renderer!: ReactTestRenderer.ReactTestRenderer;
+  
+  await ReactTestRenderer.act(() => {
+    renderer = ReactTestRenderer.create(<DashboardScreen />);
+  });
+  
+  const text = renderer.root
+    .findAllByType(Text)
+    .map(node => [node.props.children].flat(Infinity).join(''))
+    .join('\n');
+  
+  await ReactTestRenderer.act(() => {
+    renderer.unmount();
+  });
+  
+  return text;
+};
+
+describe('DashboardScreen', () => {
+  beforeEach(() => {
+    useGoalStore.getState().clearPlan();
+  });
+  
+  it('should render without a goal', async () => {
+    expect(await renderDashboard()).toContain('No reading scheduled for today');
+  });
+  
+  it("should render catch-up reading scheduled beside the day's own assignment", async () => {
+    const { setGoal, rescheduleMissedDays } = useGoalStore.getState();
+    setGoal({ ...hifz, id: 'juz-30', mode: 'reading', startDate: daysFromToday(-2) });
+    rescheduleMissedDays('spread-evenly');
+    
+    const todays = useGoalStore.getState().getTodaysAssignments().map(({ assignment }) => assignment);
+    const text = await renderDashboard();
+    
+    expect(todays).toHaveLength(2);
+    for (const assignment of todays) {
+      const label = assignment.isCatchUpDay ? 'Catch-up' : 'Today';
+      expect(text).toContain(`${label}: ${formatQuranRef(assignment.fromAyah)}`);
+    }
+  });
+  
+  it("should render a memorization goal's portion and due reviews on a reading day", async () => {
+    const { setGoal, markDayAsComplete } = useGoalStore.getState();
+    setGoal(hifz);
+    markDayAsComplete(daysFromToday(-1));
+    
+    const { plan, reviewItems } = useGoalStore.getState().getActiveGoal()!;
+    const text = await renderDashboard();
+    
+    expect(text).toContain(`Today: ${formatQuranRef(plan[1].fromAyah)}`);
+    expect(reviewItems).toHaveLength(5);
+    expect(text).toContain(`Review: ${formatQuranRef(reviewItems![0].fromAyah)}`);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Render Tests for the Goal Setup Screen
+ * 
+ * These tests verify that templates start on the chosen date and that it reaches the saved plan.
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Button, TextInput } from 'react-native-paper';
+import GoalSetupScreen from '../GoalSetupScreen';
+import { useGoalStore } from '@/store/useGoalStore';
+import { getTemplateById, getTemplateStartDate } from '@/lib/planTemplates';
+import { toDayKey } from '@/lib/routines';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ navigate: jest.fn() }),
+}));
+
+// Rendering loads react-native-paper's components, which is slow without a transform cache
+jest.setTimeout(30000);
+
+const START_DATE_LABEL = 'Start date (YYYY-MM-DD)';
+
+describe('GoalSetupScreen', () => {
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+  
+  const findStartDateInput = () =>
+    renderer.root.findAllByType(TextInput).find(input => input.props.label === START_DATE_LABEL)!;
+  
+  beforeEach(async () => {
+    useGoalStore.getState().clearPlan();
+    
+    await ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<GoalSetupScreen />);
+    });
+  });
+  
+  afterEach(async () => {
+    await ReactTestRenderer.act(() => {
+      renderer.unmount();
+    });
+  });
+  
+  it('should start the Ramadan khatm on the next 1 Ramadan by default', () => {
+    const ramadanStart = getTemplateStartDate(getTemplateById('ramadan-khatm')!);
+    
+    expect(findStartDateInput().props.value).toBe(toDayKey(ramadanStart));
+  });
+  
+  it('should generate the saved plan from the chosen start date', async () => {
+    await ReactTestRenderer.act(() => {
+      findStartDateInput().props.onChangeText('2025-03-10');
+    });
+    await ReactTestRenderer.act(() => {
+      renderer.root.findByType(Button).props.onPress();
+    });
+    
+    const record = useGoalStore.getState().getActiveGoal();
+    expect(record?.goal.startDate).toEqual(new Date(2025, 2, 10));
+    expect(record?.plan[0].date).toEqual(new Date(2025, 2, 10));
+  });
+  
+  it('should not save a start date that is not a real day', async () => {
+    await ReactTestRenderer.act(() => {
+      findStartDateInput().props.onChangeText('2025-02-30');
+    });
+    
+    expect(findStartDateInput().props.error).toBe(true);
+    expect(renderer.root.findByType(Button).props.disabled).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Render Tests for the Settings Screen
+ * 
+ * These tests verify that routines can be added from the presets and removed again.
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Button } from 'react-native-paper';
+import SettingsScreen from '../SettingsScreen';
+import { useGoalStore } from '@/store/useGoalStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// Rendering loads react-native-paper's components, which is slow without a transform cache
+jest.setTimeout(30000);
+
+const KAHF = 'Al-Kahf on Fridays';
+
+describe('SettingsScreen', () => {
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+  
+  const findButton = (label: string) =>
+    renderer.root.findAllByType(Button).find(button => button.props.accessibilityLabel === label);
+  
+  beforeEach(async () => {
+    useGoalStore.getState().clearPlan();
+    
+    await ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<SettingsScreen />);
+    });
+  });
+  
+  afterEach(async () => {
+    await ReactTestRenderer.act(() => {
+      renderer.unmount();
+    });
+  });
+  
+  it('should add a routine from a preset', async () => {
+    await ReactTestRenderer.act(() => {
+      findButton(`Add ${KAHF}`)!.props.onPress();
+    });
+    
+    const records = Object.values(useGoalStore.getState().routines);
+    expect(records).toHaveLength(1);
+    expect(records[0].routine).toMatchObject({ name: KAHF, surahIds: [18], daysOfWeek: [5] });
+    expect(findButton(`Add ${KAHF}`)!.props.disabled).toBe(true);
+    expect(findButton(`Remove ${KAHF}`)).toBeDefined();
+  });
+  
+  it('should archive a routine when it is removed', async () => {
+    await ReactTestRenderer.act(() => {
+      findButton(`Add ${KAHF}`)!.props.onPress();
+    });
+    await ReactTestRenderer.act(() => {
+      findButton(`Remove ${KAHF}`)!.props.onPress();
+    });
+    
+    const records = Object.values(useGoalStore.getState().routines);
+    expect(records[0].archived).toBe(true);
+    expect(findButton(`Remove ${KAHF}`)).toBeUndefined();
+    expect(findButton(`Add ${KAHF}`)!.props.disabled).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Mushaf Layouts
+ * 
+ * These tests verify the bundled page tables and switching the active layout.
+ */
+
+import { MUSHAF_LAYOUTS, createPageTableLayout, getMushafLayout } from '../mushafLayouts';
+import {
+  setMushafLayout,
+  getActiveMushafLayout,
+  getPageCount,
+  getPageForAyah,
+  getAyahRangeForPage,
+  getSurahById,
+  page,
+} from '../quranData';
+import { AYAH_COUNT } from '../quranIndex';
+import { generatePlan } from '@/lib/goalCalculator';
+import { formatQuranRef } from '@/lib/quranRef';
+import { UserGoal } from '@/types';
+
+describe('Mushaf Layouts', () => {
+  afterEach(() => {
+    setMushafLayout('madani');
+  });
+  
+  describe.each(Object.values(MUSHAF_LAYOUTS))('$name', layout => {
+    it('should place every ayah on exactly one page, in order', () => {
+      let expectedFirstAyahId = 1;
+      
+      for (let pageNumber = 1; pageNumber <= layout.pageCount; pageNumber++) {
+        const range = layout.getPageRange(pageNumber)!;
+        
+        expect(range.firstAyahId).toBe(expectedFirstAyahId);
+        expect(range.lastAyahId).toBeGreaterThanOrEqual(range.firstAyahId);
+        expect(layout.getPageForAyahId(range.firstAyahId)).toBe(pageNumber);
+        expect(layout.getPageForAyahId(range.lastAyahId)).toBe(pageNumber);
+        expectedFirstAyahId = range.lastAyahId + 1;
+      }
+      
+      expect(expectedFirstAyahId).toBe(AYAH_COUNT + 1);
+    });
+    
+    it('should have no pages outside its page count', () => {
+      expect(layout.getPageRange(0)).toBeNull();
+      expect(layout.getPageRange(layout.pageCount + 1)).toBeNull();
+    });
+  });
+  
+  it('should build layouts from page tables', () => {
+    const layout = createPageTableLayout('madani', 'Two pages', [1, 3000]);
+    
+    expect(layout.pageCount).toBe(2);
+    expect(layout.getPageForAyahId(2999)).toBe(1);
+    expect(layout.getPageRange(2)).toEqual({ firstAyahId: 3000, lastAyahId: AYAH_COUNT });
+  });
+  
+  it('should fall back to the Madani layout for unknown IDs', () => {
+    expect(getMushafLayout('standard')).toBe(MUSHAF_LAYOUTS.madani);
+  });
+  
+  describe('active layout', () => {
+    it('should use the Madani layout by default', () => {
+      expect(getActiveMushafLayout().id).toBe('madani');
+      expect(getPageCount()).toBe(604);
+      expect(getPageForAyah(2, 255)).toBe(42);
+    });
+    
+    it('should answer page lookups from the chosen layout', () => {
+      setMushafLayout('warsh');
+      
+      // Page 3 starts one ayah earlier than in the Madani mushaf
+      expect(getActiveMushafLayout().id).toBe('warsh');
+      expect(getPageCount()).toBe(604);
+      expect(getPageForAyah(2, 5)).toBe(3);
+      expect(page(3)).toMatchObject({ startSurah: 2, startAyah: 5 });
+      expect(getSurahById(114)?.endPage).toBe(604);
+    });
+    
+    it('should start Warsh pages at the ayah numbers of quran-meta\'s Warsh page list', () => {
+      setMushafLayout('warsh');
+      
+      // Pages keep Warsh's ayah numbers, which run lower than Hafs in Al-Baqarah and Al-Kahf
+      expect(getAyahRangeForPage(23)?.start).toBe('2:145');
+      expect(getAyahRangeForPage(300)?.start).toBe('18:53');
+      expect(getAyahRangeForPage(604)?.start).toBe('112:1');
+    });
+    
+    it('should change the page numbers in generated plans', () => {
+      const goal: UserGoal = {
+        id: 'goal-1',
+        target: 'whole-quran',
+        unit: 'pages',
+        dailyAmount: 20,
+        startDate: new Date(2025, 0, 1),
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      };
+      
+      const madaniPlan = generatePlan(goal);
+      setMushafLayout('warsh');
+      const warshPlan = generatePlan(goal);
+      
+      expect(warshPlan).toHaveLength(madaniPlan.length);
+      expect(warshPlan[1].fromPage).toBe(21);
+      expect(formatQuranRef(warshPlan[1].fromAyah)).toBe(getAyahRangeForPage(21)?.start);
+      expect(warshPlan[1].fromAyah).not.toBe(madaniPlan[1].fromAyah);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Benchmarks for the Quran Index
+ * 
+ * These report how long lookups, surah listings and plan generation take with
+ * the precomputed tables, and check the generated plan against quran-meta.
+ * Timings depend on the machine, so they run with `npm run bench` rather than
+ * with the unit tests.
+ */
+
+import { quran } from 'quran-meta';
+import { AYAH_COUNT, SURAH_COUNT, QURAN_INDEX } from '../quranIndex';
+import { getSurahList, getPageForAyah } from '../quranData';
+import { generatePlan } from '@/lib/goalCalculator';
+import { UserGoal } from '@/types';
+
+/** Milliseconds taken to run a function a number of times */
+const timeRuns = (runs: number, run: () => void): number => {
+  const start = Date.now();
+  for (let i = 0; i < runs; i++) {
+    run();
+  }
+  return Date.now() - start;
+};
+
+/** Print the average time of one run */
+const report = (name: string, runs: number, time: number) => {
+  console.log(`${name}: ${(time / runs).toFixed(2)} ms per run (${runs} runs)`);
+};
+
+describe('Quran Index benchmark', () => {
+  it('should time page lookups for every ayah', () => {
+    const runs = 5;
+    const time = timeRuns(runs, () => {
+      for (let surahId = 1; surahId <= SURAH_COUNT; surahId++) {
+        const ayahCount = QURAN_INDEX.surahLastAyah[surahId] - QURAN_INDEX.surahFirstAyah[surahId] + 1;
+        for (let ayahNumber = 1; ayahNumber <= ayahCount; ayahNumber++) {
+          getPageForAyah(surahId, ayahNumber);
+        }
+      }
+    });
+    
+    report(`getPageForAyah for all ${AYAH_COUNT} ayahs`, runs, time);
+  });
+  
+  it('should time listing the surahs', () => {
+    const runs = 100;
+    const time = timeRuns(runs, getSurahList);
+    
+    expect(getSurahList()).toHaveLength(SURAH_COUNT);
+    report('getSurahList', runs, time);
+  });
+  
+  it('should time generating a multi-year ayah plan', () => {
+    const goal: UserGoal = {
+      id: 'benchmark',
+      target: 'whole-quran',
+      unit: 'ayahs',
+      dailyAmount: 1,
+      startDate: new Date(2025, 0, 1),
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+    };
+    const runs = 3;
+    const time = timeRuns(runs, () => generatePlan(goal));
+    
+    const plan = generatePlan(goal);
+    expect(plan).toHaveLength(AYAH_COUNT);
+    expect(plan.every((assignment, i) => assignment.fromAyah === i + 1)).toBe(true);
+    const pagesMatch = plan.every(
+      assignment => assignment.fromPage === quran.getAyahMeta(assignment.fromAyah).page,
+    );
+    expect(pagesMatch).toBe(true);
+    report(`generatePlan for ${AYAH_COUNT} daily ayahs`, runs, time);
+  });
+});
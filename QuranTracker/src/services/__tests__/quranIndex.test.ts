@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for the Quran Index
+ * 
+ * These tests verify the precomputed lookup tables against quran-meta. The
+ * lookups are benchmarked in quranIndex.bench.ts.
+ */
+
+import { quran } from 'quran-meta';
+import {
+  AYAH_COUNT,
+  SURAH_COUNT,
+  PAGE_COUNT,
+  QURAN_INDEX,
+  isAyahId,
+  findAyahId,
+} from '../quranIndex';
+import { getPageForAyah, getManzilForAyah } from '../quranData';
+import { getVersesByPage } from '../quranText';
+
+describe('Quran Index', () => {
+  describe('tables', () => {
+    it('should match quran-meta for every ayah', () => {
+      for (let ayahId = 1; ayahId <= AYAH_COUNT; ayahId++) {
+        const meta = quran.getAyahMeta(ayahId);
+        
+        expect([
+          QURAN_INDEX.ayahSurah[ayahId],
+          QURAN_INDEX.ayahNumber[ayahId],
+          QURAN_INDEX.ayahPage[ayahId],
+          QURAN_INDEX.ayahJuz[ayahId],
+          QURAN_INDEX.ayahHizb[ayahId],
+          QURAN_INDEX.ayahRub[ayahId],
+          QURAN_INDEX.ayahManzil[ayahId],
+          QURAN_INDEX.ayahRuku[ayahId],
+        ]).toEqual([
+          meta.surah,
+          meta.ayah,
+          meta.page,
+          meta.juz,
+          meta.hizbId,
+          meta.rubAlHizbId,
+          quran.findManzilByAyahId(ayahId),
+          meta.ruku,
+        ]);
+      }
+    });
+    
+    it('should match quran-meta for every surah and page', () => {
+      for (let surahId = 1; surahId <= SURAH_COUNT; surahId++) {
+        const meta = quran.getSurahMeta(surahId as any);
+        expect(QURAN_INDEX.surahFirstAyah[surahId]).toBe(meta.firstAyahId);
+        expect(QURAN_INDEX.surahLastAyah[surahId]).toBe(meta.lastAyahId);
+      }
+      
+      for (let pageNum = 1; pageNum <= PAGE_COUNT; pageNum++) {
+        const meta = quran.getPageMeta(pageNum as any);
+        expect(QURAN_INDEX.pageFirstAyah[pageNum]).toBe(meta.firstAyahId);
+        expect(QURAN_INDEX.pageLastAyah[pageNum]).toBe(meta.lastAyahId);
+      }
+    });
+    
+    it('should cover every ayah exactly once across the pages', () => {
+      const verses = Array.from({ length: PAGE_COUNT }, (_, i) => getVersesByPage(i + 1)).flat();
+      
+      expect(verses).toHaveLength(AYAH_COUNT);
+      expect(verses[0]).toMatchObject({ surahId: 1, ayahNumber: 1 });
+      expect(verses[AYAH_COUNT - 1]).toMatchObject({ surahId: 114, ayahNumber: 6 });
+    });
+    
+    it('should find ayah indexes from surah and ayah numbers', () => {
+      expect(findAyahId(1, 1)).toBe(1);
+      expect(findAyahId(2, 255)).toBe(262);
+      expect(findAyahId(114, 6)).toBe(AYAH_COUNT);
+      expect(findAyahId(1, 8)).toBeNull();
+      expect(findAyahId(1, 0)).toBeNull();
+      expect(findAyahId(115, 1)).toBeNull();
+      expect(isAyahId(AYAH_COUNT + 1)).toBe(false);
+    });
+    
+    it('should answer per-ayah lookups through the data service', () => {
+      expect(getPageForAyah(2, 255)).toBe(42);
+      expect(getManzilForAyah(50, 1)).toBe(7);
+      expect(getPageForAyah(1, 8)).toBeNull();
+    });
+  });
+});
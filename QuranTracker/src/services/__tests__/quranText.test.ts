@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Quran Text Service
+ * 
+ * These tests verify loading ayah text and translations, and grouping ranges by surah.
+ */
+
+import {
+  BISMILLAH,
+  getAyah,
+  getAyahText,
+  getAyahTranslation,
+  getAyahWeights,
+  getAyahsForSurah,
+  getSurahNameTranslation,
+  getTextForRange,
+  getVersesByPage,
+} from '../quranText';
+
+describe('Quran Text Service', () => {
+  it('should load an ayah with its text, page and juz', () => {
+    const ayah = getAyah('2:255');
+    
+    expect(ayah).not.toBeNull();
+    expect(ayah!.key).toBe('2:255');
+    expect(ayah!.page).toBe(42);
+    expect(ayah!.juz).toBe(3);
+    expect(ayah!.text.length).toBeGreaterThan(0);
+  });
+  
+  it('should return null for ayahs that do not exist', () => {
+    expect(getAyah('1:8')).toBeNull();
+    expect(getAyahText('115:1')).toBeNull();
+    expect(getAyahText('not-an-ayah')).toBeNull();
+  });
+  
+  it('should use the first ayah of Al-Fatihah as the bismillah', () => {
+    expect(getAyahText('1:1')).toBe(BISMILLAH);
+  });
+  
+  it('should group a range by surah', () => {
+    const sections = getTextForRange('112:3', '114:2');
+    
+    expect(sections.map(section => section.surahId)).toEqual([112, 113, 114]);
+    expect(sections[0].ayahs.map(ayah => ayah.key)).toEqual(['112:3', '112:4']);
+    expect(sections[1].ayahs).toHaveLength(5);
+    expect(sections[2].ayahs.map(ayah => ayah.key)).toEqual(['114:1', '114:2']);
+    expect(sections[2].transliteration).toBe('An-Nas');
+  });
+  
+  it('should add a bismillah header only where a surah begins', () => {
+    const sections = getTextForRange('112:3', '114:2');
+    
+    expect(sections.map(section => section.showBismillah)).toEqual([false, true, true]);
+  });
+  
+  it('should not add a bismillah header to Al-Fatihah or At-Tawbah', () => {
+    expect(getTextForRange('1:1', '1:7')[0].showBismillah).toBe(false);
+    expect(getTextForRange('8:75', '9:2').map(section => section.showBismillah)).toEqual([
+      false,
+      false,
+    ]);
+  });
+  
+  it('should return nothing for an invalid range', () => {
+    expect(getTextForRange('2:5', '2:1')).toEqual([]);
+    expect(getTextForRange('0:1', '2:1')).toEqual([]);
+  });
+  
+  it('should fill in the text of surah and page listings', () => {
+    const surahAyahs = getAyahsForSurah(112);
+    const pageAyahs = getVersesByPage(604);
+    
+    expect(surahAyahs.map(ayah => ayah.key)).toEqual(['112:1', '112:2', '112:3', '112:4']);
+    expect(surahAyahs[0]).toEqual(getAyah('112:1'));
+    expect(pageAyahs[0].key).toBe('112:1');
+    expect(pageAyahs.every(ayah => ayah.text.length > 0 && ayah.page === 604)).toBe(true);
+    expect(getAyahsForSurah(115)).toEqual([]);
+  });
+  
+  it('should load the translation of an ayah', () => {
+    expect(getAyahTranslation('1:2', 'en')).toBe('[All] praise is [due] to Allah, Lord of the worlds');
+    expect(getAyahTranslation('1:2', 'fr')).not.toBe(getAyahTranslation('1:2', 'en'));
+    expect(getAyahTranslation('1:8', 'en')).toBeNull();
+  });
+  
+  it('should load the translated name of a surah', () => {
+    expect(getSurahNameTranslation(1, 'en')).toBe('The Opener');
+    expect(getSurahNameTranslation(115, 'en')).toBeNull();
+  });
+  
+  it('should only include translations when a language is given', () => {
+    expect(getAyah('1:2')!.translation).toBeUndefined();
+    expect(getTextForRange('1:1', '1:2', 'en')[0].ayahs[1].translation).toBe(
+      getAyahTranslation('1:2', 'en'),
+    );
+  });
+  
+  it('should count the words and letters of each ayah', () => {
+    // The bismillah has 4 words and 19 letters
+    expect(getAyahWeights('words')[1]).toBe(4);
+    expect(getAyahWeights('letters')[1]).toBe(19);
+    expect(getAyahWeights('words')).toHaveLength(6237);
+    expect(getAyahWeights('letters').every((count, ayahId) => ayahId === 0 || count > 0)).toBe(true);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Unit Tests for Storage Service
+ * 
+ * These tests verify date and reference revival and schema migrations of the persisted goal store.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  GOAL_STORAGE_KEY,
+  GOAL_SCHEMA_VERSION,
+  goalStorage,
+  migrateGoalState,
+  reviveDates,
+  reviveGoalState,
+  serializeGoalState,
+  clearGoalStorage,
+} from '../storageService';
+import { useGoalStore } from '@/store/useGoalStore';
+import { parseQuranRef } from '@/lib/quranRef';
+import { PersistedGoalState, UserGoal, DailyAssignment, QuranRef } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const ref = (value: string) => parseQuranRef(value) as QuranRef;
+
+const buildGoal = (): UserGoal => ({
+  id: 'goal-1',
+  target: 'specific-juz',
+  targetValue: 30,
+  unit: 'pages',
+  dailyAmount: 1,
+  startDate: new Date('2025-01-01T00:00:00.000Z'),
+  deadline: new Date('2025-02-01T00:00:00.000Z'),
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+});
+
+const buildPlan = (): DailyAssignment[] => [
+  {
+    date: new Date('2025-01-01T00:00:00.000Z'),
+    fromAyah: ref('78:1'),
+    toAyah: ref('78:30'),
+    fromPage: 582,
+    toPage: 582,
+    completed: true,
+    isCatchUpDay: false,
+  },
+];
+
+const buildState = (): PersistedGoalState => ({
+  goals: {
+    'goal-1': {
+      goal: buildGoal(),
+      plan: buildPlan(),
+      currentStreak: 1,
+      bestStreak: 1,
+      totalDaysCompleted: 1,
+      archived: false,
+    },
+  },
+  routines: {
+    'routine-1': {
+      routine: {
+        id: 'routine-1',
+        name: 'Al-Kahf on Fridays',
+        surahIds: [18],
+        daysOfWeek: [5],
+        startDate: new Date('2025-01-03T00:00:00.000Z'),
+      },
+      completedDays: ['2025-01-03'],
+      currentStreak: 1,
+      bestStreak: 1,
+      archived: false,
+    },
+  },
+  activeGoalId: 'goal-1',
+  lastUpdated: new Date('2025-01-01T08:00:00.000Z'),
+});
+
+describe('Storage Service', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+  
+  describe('reviveDates', () => {
+    it('should revive ISO strings stored under date keys', () => {
+      const revived = reviveDates('startDate', '2025-01-01T00:00:00.000Z');
+      expect(revived).toBeInstanceOf(Date);
+      expect((revived as Date).toISOString()).toBe('2025-01-01T00:00:00.000Z');
+    });
+    
+    it('should revive goal revision timestamps', () => {
+      expect(reviveDates('revisedAt', '2025-02-01T10:00:00.000Z')).toEqual(
+        new Date('2025-02-01T10:00:00.000Z'),
+      );
+    });
+    
+    it('should leave other keys and non-date strings untouched', () => {
+      expect(reviveDates('fromAyah', '2025-01-01T00:00:00.000Z')).toBe(
+        '2025-01-01T00:00:00.000Z',
+      );
+      expect(reviveDates('date', 'not a date')).toBe('not a date');
+      expect(reviveDates('deadline', null)).toBeNull();
+    });
+    
+    it('should revive "surah:ayah" strings stored under reference keys', () => {
+      expect(reviveGoalState('fromAyah', '2:255')).toBe(ref('2:255'));
+      expect(reviveGoalState('readUpTo', '114:6')).toBe(6236);
+      expect(reviveGoalState('date', '2025-01-01T00:00:00.000Z')).toBeInstanceOf(Date);
+    });
+    
+    it('should keep stored references that are not real ayahs', () => {
+      expect(reviveGoalState('startFrom', '200:0')).toBe('200:0');
+    });
+    
+    it('should store references as "surah:ayah" strings', () => {
+      expect(serializeGoalState('toAyah', ref('2:255'))).toBe('2:255');
+      expect(serializeGoalState('fromPage', 42)).toBe(42);
+    });
+  });
+  
+  describe('goalStorage', () => {
+    it('should round-trip state and restore Date fields', async () => {
+      const state = buildState();
+      await goalStorage!.setItem(GOAL_STORAGE_KEY, {
+        state,
+        version: GOAL_SCHEMA_VERSION,
+      });
+      
+      const stored = await goalStorage!.getItem(GOAL_STORAGE_KEY);
+      
+      expect(stored?.version).toBe(GOAL_SCHEMA_VERSION);
+      const record = stored?.state.goals['goal-1'];
+      expect(record?.goal.startDate).toBeInstanceOf(Date);
+      expect(record?.goal.deadline).toBeInstanceOf(Date);
+      expect(record?.plan[0].date).toBeInstanceOf(Date);
+      expect(stored?.state.lastUpdated).toBeInstanceOf(Date);
+      expect(stored?.state).toEqual(state);
+    });
+    
+    it('should keep the "surah:ayah" format in storage', async () => {
+      await goalStorage!.setItem(GOAL_STORAGE_KEY, {
+        state: buildState(),
+        version: GOAL_SCHEMA_VERSION,
+      });
+      
+      const raw = JSON.parse((await AsyncStorage.getItem(GOAL_STORAGE_KEY)) as string);
+      
+      expect(raw.state.goals['goal-1'].plan[0].fromAyah).toBe('78:1');
+      expect(raw.state.goals['goal-1'].plan[0].toAyah).toBe('78:30');
+    });
+    
+    it('should clear persisted data', async () => {
+      await goalStorage!.setItem(GOAL_STORAGE_KEY, {
+        state: buildState(),
+        version: GOAL_SCHEMA_VERSION,
+      });
+      
+      await clearGoalStorage();
+      
+      expect(await goalStorage!.getItem(GOAL_STORAGE_KEY)).toBeNull();
+    });
+  });
+  
+  describe('migrateGoalState', () => {
+    it('should return current-version state unchanged', () => {
+      const state = buildState();
+      expect(migrateGoalState(state, GOAL_SCHEMA_VERSION)).toBe(state);
+    });
+    
+    it('should upgrade an unversioned snapshot to the current schema', () => {
+      const currentGoal = buildGoal();
+      const legacyPlan = buildPlan().map(({ date, fromAyah, toAyah, completed }) => ({
+        date,
+        fromAyah,
+        toAyah,
+        completed,
+      }));
+      
+      const migrated = migrateGoalState(
+        { currentGoal, plan: legacyPlan },
+        0,
+      );
+      
+      const record = migrated.goals['goal-1'];
+      expect(migrated.activeGoalId).toBe('goal-1');
+      expect(migrated.routines).toEqual({});
+      expect(migrated.lastUpdated).toBeNull();
+      expect(record.goal).toEqual(currentGoal);
+      expect(record.plan[0].isCatchUpDay).toBe(false);
+      expect(record.plan[0].fromPage).toBe(582);
+      expect(record.currentStreak).toBe(0);
+      expect(record.bestStreak).toBe(0);
+      expect(record.totalDaysCompleted).toBe(1);
+      expect(record.archived).toBe(false);
+    });
+    
+    it('should upgrade a single-goal snapshot to keyed goals', () => {
+      const lastUpdated = new Date('2025-01-01T08:00:00.000Z');
+      
+      const migrated = migrateGoalState(
+        {
+          currentGoal: buildGoal(),
+          plan: buildPlan(),
+          lastUpdated,
+          currentStreak: 1,
+          bestStreak: 3,
+          totalDaysCompleted: 1,
+        },
+        1,
+      );
+      
+      expect(migrated).toEqual({
+        goals: {
+          'goal-1': {
+            goal: buildGoal(),
+            plan: buildPlan(),
+            currentStreak: 1,
+            bestStreak: 3,
+            totalDaysCompleted: 1,
+            archived: false,
+          },
+        },
+        routines: {},
+        activeGoalId: 'goal-1',
+        lastUpdated,
+      });
+    });
+    
+    it('should add an empty routine collection to keyed goals', () => {
+      const { goals, activeGoalId, lastUpdated } = buildState();
+      
+      const migrated = migrateGoalState({ goals, activeGoalId, lastUpdated }, 2);
+      
+      expect(migrated).toEqual({ goals, routines: {}, activeGoalId, lastUpdated });
+    });
+    
+    it('should tolerate an empty legacy snapshot', () => {
+      const migrated = migrateGoalState(undefined, 0);
+      
+      expect(migrated.goals).toEqual({});
+      expect(migrated.activeGoalId).toBeNull();
+    });
+    
+    it('should throw for versions without a migration path', () => {
+      expect(() => migrateGoalState({}, -1)).toThrow(
+        'No migration from goal schema version -1',
+      );
+    });
+  });
+  
+  describe('goal store hydration', () => {
+    it('should load and migrate a legacy snapshot into the store', async () => {
+      const currentGoal = buildGoal();
+      const plan = buildPlan();
+      await AsyncStorage.setItem(
+        GOAL_STORAGE_KEY,
+        JSON.stringify({ state: { currentGoal, plan }, version: 0 }, serializeGoalState),
+      );
+      
+      await useGoalStore.persist.rehydrate();
+      
+      const record = useGoalStore.getState().getActiveGoal();
+      expect(record?.goal.id).toBe('goal-1');
+      expect(record?.goal.startDate).toBeInstanceOf(Date);
+      expect(record?.plan[0].date).toBeInstanceOf(Date);
+      expect(record?.plan[0].fromAyah).toBe(ref('78:1'));
+      expect(record?.totalDaysCompleted).toBe(1);
+    });
+    
+    it('should persist store changes with the current schema version', async () => {
+      useGoalStore.getState().clearPlan();
+      
+      const raw = await AsyncStorage.getItem(GOAL_STORAGE_KEY);
+      const stored = JSON.parse(raw as string);
+      
+      expect(stored.version).toBe(GOAL_SCHEMA_VERSION);
+      expect(stored.state.goals).toEqual({});
+      expect(stored.state.activeGoalId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for Surah Names
+ * 
+ * These tests verify the surah name dataset and the names filled in by `surah()`.
+ */
+
+import { SURAH_NAMES, getSurahName } from '../surahNames';
+import { surah } from '../quranData';
+
+describe('Surah Names', () => {
+  it('should have names for all 114 surahs in order', () => {
+    expect(SURAH_NAMES).toHaveLength(114);
+    SURAH_NAMES.forEach((names, index) => {
+      expect(names.id).toBe(index + 1);
+      expect(names.arabic).not.toBe('');
+      expect(names.transliteration).not.toBe('');
+      expect(names.translation).not.toBe('');
+    });
+  });
+  
+  it.each([
+    [1, 'الفاتحة', 'Al-Fatihah', 'The Opener'],
+    [2, 'البقرة', 'Al-Baqarah', 'The Cow'],
+    [18, 'الكهف', 'Al-Kahf', 'The Cave'],
+    [36, 'يس', 'Ya-Sin', 'Ya Sin'],
+    [67, 'الملك', 'Al-Mulk', 'The Sovereignty'],
+    [114, 'الناس', 'An-Nas', 'Mankind'],
+  ])('should name surah %i correctly', (id, arabic, transliteration, translation) => {
+    expect(getSurahName(id)).toEqual({ id, arabic, transliteration, translation });
+  });
+  
+  it('should return null for surahs that do not exist', () => {
+    expect(getSurahName(0)).toBeNull();
+    expect(getSurahName(115)).toBeNull();
+  });
+  
+  it('should fill in each name field of a surah', () => {
+    const kahf = surah(18);
+    
+    expect(kahf).toMatchObject({
+      id: 18,
+      nameArabic: 'الكهف',
+      nameTransliteration: 'Al-Kahf',
+      nameTranslation: 'The Cave',
+    });
+    expect(kahf).not.toHaveProperty('name');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Mushaf Layout Service
+ * Page layouts of the supported printed mushafs, each mapping ayahs to pages
+ */
+
+import { MushafLayoutId } from '@/types';
+import { AYAH_COUNT, PAGE_COUNT, QURAN_INDEX } from '@/services/quranIndex';
+import { WARSH_PAGE_STARTS } from '@/services/mushafPages';
+
+/**
+ * A mushaf's page layout
+ */
+export interface MushafLayout {
+  id: MushafLayoutId;
+  
+  /** Name shown in settings */
+  name: string;
+  
+  /** Number of pages */
+  pageCount: number;
+  
+  /** Get the page (1 to pageCount) an absolute ayah index is on */
+  getPageForAyahId: (ayahId: number) => number;
+  
+  /** Get the first and last absolute ayah index on a page, or null if there is no such page */
+  getPageRange: (pageNumber: number) => { firstAyahId: number; lastAyahId: number } | null;
+}
+
+/**
+ * Build a layout from the first ayah of each page
+ */
+export function createPageTableLayout(
+  id: MushafLayoutId,
+  name: string,
+  pageStarts: readonly number[],
+): MushafLayout {
+  const pageCount = pageStarts.length;
+  const ayahPage = new Uint16Array(AYAH_COUNT + 1);
+  
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const nextStart = pageIndex + 1 < pageCount ? pageStarts[pageIndex + 1] : AYAH_COUNT + 1;
+    ayahPage.fill(pageIndex + 1, pageStarts[pageIndex], nextStart);
+  }
+  
+  return {
+    id,
+    name,
+    pageCount,
+    getPageForAyahId: ayahId => ayahPage[ayahId],
+    getPageRange: pageNumber => {
+      if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pageCount) {
+        return null;
+      }
+      
+      return {
+        firstAyahId: pageStarts[pageNumber - 1],
+        lastAyahId: pageNumber < pageCount ? pageStarts[pageNumber] - 1 : AYAH_COUNT,
+      };
+    },
+  };
+}
+
+/**
+ * Supported layouts, by ID
+ */
+export const MUSHAF_LAYOUTS: Record<MushafLayoutId, MushafLayout> = {
+  madani: createPageTableLayout(
+    'madani',
+    'Madani (604 pages)',
+    Array.from(QURAN_INDEX.pageFirstAyah.subarray(1, PAGE_COUNT + 1)),
+  ),
+  warsh: createPageTableLayout('warsh', 'Warsh (604 pages)', WARSH_PAGE_STARTS),
+};
+
+/**
+ * Get a layout by ID, falling back to the Madani layout for unknown IDs
+ */
+export function getMushafLayout(layoutId: string): MushafLayout {
+  return MUSHAF_LAYOUTS[layoutId as MushafLayoutId] ?? MUSHAF_LAYOUTS.madani;
+}
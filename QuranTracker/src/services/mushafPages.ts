@@ -0,0 +1,37 @@
+/**
+ * Mushaf Page Tables
+ * First ayah of every page in the bundled non-Madani mushaf layouts
+ * 
+ * Each table lists absolute ayah indexes (1-6236, Hafs numbering), one per page
+ * in page order. The Madani layout is read from quran-meta instead.
+ */
+
+import { createWarsh, Page } from 'quran-meta';
+import { QURAN_INDEX } from '@/services/quranIndex';
+
+/**
+ * Build the Warsh table from quran-meta's Warsh 'an Nafi' page list
+ * 
+ * quran-meta gives each page's first ayah in Warsh numbering, which counts the
+ * ayahs of some surahs differently from Hafs. No alignment between the two
+ * counts is bundled, so Warsh ayah s:a is taken as Hafs ayah s:a (or the last
+ * ayah of the surah, where Hafs has fewer). In those surahs a page can start an
+ * ayah or two away from where the printed mushaf starts it.
+ */
+function buildWarshPageStarts(): number[] {
+  const warsh = createWarsh();
+  
+  return Array.from({ length: warsh.meta.numPages }, (_, i) => {
+    const [surahId, ayahNumber] = warsh.findSurahAyahByAyahId(warsh.getPageMeta((i + 1) as Page).firstAyahId);
+    
+    return Math.min(
+      QURAN_INDEX.surahFirstAyah[surahId] + ayahNumber - 1,
+      QURAN_INDEX.surahLastAyah[surahId],
+    );
+  });
+}
+
+/**
+ * Warsh 'an Nafi' mushaf (604 pages)
+ */
+export const WARSH_PAGE_STARTS: readonly number[] = buildWarshPageStarts();
@@ -1,233 +1,224 @@
 /**
  * Quran Data Service
  * Provides a clean API for accessing Quran metadata using quran-meta package
+ * 
+ * Per-ayah lookups are answered from the precomputed tables in the Quran index,
+ * and page numbers from the active mushaf layout. Every division (surah, juz,
+ * hizb, rub' al-hizb, manzil) is built once, and again when the layout changes.
  */
 
 import { quran } from 'quran-meta';
-import { Surah, Juz, Ayah } from '@/types';
+import { Surah, Juz, QuranDivision, MushafLayoutId } from '@/types';
+import { getSurahName } from '@/services/surahNames';
+import { QURAN_INDEX, SURAH_COUNT, isAyahId, findAyahId } from '@/services/quranIndex';
+import { MushafLayout, getMushafLayout } from '@/services/mushafLayouts';
 
 /**
- * Get information about a specific Surah
+ * Get the "surah:ayah" reference for an absolute ayah index known to be valid
  */
-export function surah(surahId: number): Surah | null {
-  if (surahId < 1 || surahId > 114) {
-    return null;
-  }
-  
-  const surahMeta = quran.getSurahMeta(surahId as any);
-  
-  if (!surahMeta) {
-    return null;
-  }
+function referenceForAyahId(ayahId: number): string {
+  return `${QURAN_INDEX.ayahSurah[ayahId]}:${QURAN_INDEX.ayahNumber[ayahId]}`;
+}
+
+/**
+ * Build one entry per division number, from 1 up to the count
+ */
+function buildDivisions<T>(count: number, build: (id: number) => T): T[] {
+  return Array.from({ length: count }, (_, i) => build(i + 1));
+}
+
+/**
+ * Build every surah and division, with page numbers from a mushaf layout
+ */
+function buildDivisionTables(layout: MushafLayout) {
+  const divisionFromAyahIds = (id: number, firstAyahId: number, lastAyahId: number): QuranDivision => ({
+    id,
+    startAyah: referenceForAyahId(firstAyahId),
+    endAyah: referenceForAyahId(lastAyahId),
+    startPage: layout.getPageForAyahId(firstAyahId),
+    endPage: layout.getPageForAyahId(lastAyahId),
+  });
+  
+  const surahs: Surah[] = buildDivisions(SURAH_COUNT, surahId => {
+    const surahMeta = quran.getSurahMeta(surahId as any);
+    const names = getSurahName(surahId);
+    
+    return {
+      id: surahId,
+      nameArabic: names?.arabic ?? surahMeta.name,
+      nameTransliteration: names?.transliteration ?? surahMeta.name,
+      nameTranslation: names?.translation ?? surahMeta.name,
+      ayahCount: surahMeta.ayahCount,
+      revelationType: surahMeta.isMeccan ? 'Meccan' : 'Medinan',
+      startPage: layout.getPageForAyahId(QURAN_INDEX.surahFirstAyah[surahId]),
+      endPage: layout.getPageForAyahId(QURAN_INDEX.surahLastAyah[surahId]),
+    };
+  });
+  
+  const juzs: Juz[] = buildDivisions(30, juzNumber => {
+    const juzMeta = quran.getJuzMeta(juzNumber as any);
+    return divisionFromAyahIds(juzNumber, juzMeta.firstAyahId, juzMeta.lastAyahId);
+  });
+  
+  const rubs: QuranDivision[] = buildDivisions(240, rubNumber => {
+    const rubMeta = quran.getRubAlHizbMeta(rubNumber as any);
+    return divisionFromAyahIds(rubNumber, rubMeta.firstAyahId, rubMeta.lastAyahId);
+  });
+  
+  // Each hizb spans four rub' al-hizb
+  const hizbs: QuranDivision[] = buildDivisions(60, hizbNumber => {
+    const firstRub = rubs[hizbNumber * 4 - 4];
+    const lastRub = rubs[hizbNumber * 4 - 1];
+    
+    return { ...firstRub, id: hizbNumber, endAyah: lastRub.endAyah, endPage: lastRub.endPage };
+  });
   
-  // Get the starting and ending pages for this surah
-  const startAyahId = surahMeta.firstAyahId;
-  const endAyahId = surahMeta.lastAyahId;
+  const manzils: QuranDivision[] = buildDivisions(7, manzilNumber => {
+    const manzilMeta = quran.getManzilMeta(manzilNumber);
+    return divisionFromAyahIds(manzilNumber, manzilMeta.firstAyahId, manzilMeta.lastAyahId);
+  });
   
-  const startAyahMeta = quran.getAyahMeta(startAyahId);
-  const endAyahMeta = quran.getAyahMeta(endAyahId);
+  return { surahs, juzs, rubs, hizbs, manzils };
+}
+
+let activeLayout: MushafLayout = getMushafLayout('madani');
+let divisions = buildDivisionTables(activeLayout);
+
+/**
+ * Use a mushaf's page layout for every page number from now on
+ */
+export function setMushafLayout(layoutId: MushafLayoutId): void {
+  const layout = getMushafLayout(layoutId);
   
-  return {
-    id: surahId,
-    name: surahMeta.name,
-    nameArabic: surahMeta.name,
-    nameTransliteration: surahMeta.name,
-    nameTranslation: surahMeta.name,
-    ayahCount: surahMeta.ayahCount,
-    revelationType: surahMeta.isMeccan ? 'Meccan' : 'Medinan',
-    startPage: startAyahMeta.page,
-    endPage: endAyahMeta.page,
-  };
+  if (layout !== activeLayout) {
+    activeLayout = layout;
+    divisions = buildDivisionTables(layout);
+  }
+}
+
+/**
+ * Get the page layout currently in use
+ */
+export function getActiveMushafLayout(): MushafLayout {
+  return activeLayout;
+}
+
+/**
+ * Get the division with a number, or null if the number is out of range
+ */
+function divisionById<T>(list: T[], id: number): T | null {
+  return Number.isInteger(id) ? list[id - 1] ?? null : null;
+}
+
+/**
+ * Get information about a specific Surah
+ */
+export function surah(surahId: number): Surah | null {
+  return divisionById(divisions.surahs, surahId);
 }
 
 /**
  * Get information about a specific Juz
  */
 export function juz(juzNumber: number): Juz | null {
-  if (juzNumber < 1 || juzNumber > 30) {
-    return null;
-  }
-  
-  const juzMeta = quran.getJuzMeta(juzNumber as any);
-  
-  if (!juzMeta) {
-    return null;
-  }
-  
-  const startSurahAyah = quran.findSurahAyahByAyahId(juzMeta.firstAyahId);
-  const endSurahAyah = quran.findSurahAyahByAyahId(juzMeta.lastAyahId);
-  
-  // Get page numbers
-  const startAyahMeta = quran.getAyahMeta(juzMeta.firstAyahId);
-  const endAyahMeta = quran.getAyahMeta(juzMeta.lastAyahId);
-  
-  return {
-    id: juzNumber,
-    startSurah: startSurahAyah[0],
-    startAyah: startSurahAyah[1],
-    endSurah: endSurahAyah[0],
-    endAyah: endSurahAyah[1],
-    startPage: startAyahMeta.page,
-    endPage: endAyahMeta.page,
-  };
+  return divisionById(divisions.juzs, juzNumber);
+}
+
+/**
+ * Get information about a specific Rub' al-Hizb (quarter hizb)
+ */
+export function rubAlHizb(rubNumber: number): QuranDivision | null {
+  return divisionById(divisions.rubs, rubNumber);
+}
+
+/**
+ * Get information about a specific Hizb (four rub' al-hizb)
+ */
+export function hizb(hizbNumber: number): QuranDivision | null {
+  return divisionById(divisions.hizbs, hizbNumber);
+}
+
+/**
+ * Get information about a specific Manzil
+ */
+export function manzil(manzilNumber: number): QuranDivision | null {
+  return divisionById(divisions.manzils, manzilNumber);
 }
 
 /**
  * Get list of all Surahs
  */
 export function getSurahList(): Surah[] {
-  const surahs: Surah[] = [];
-  
-  for (let i = 1; i <= 114; i++) {
-    const surahInfo = surah(i);
-    if (surahInfo) {
-      surahs.push(surahInfo);
-    }
-  }
-  
-  return surahs;
+  return [...divisions.surahs];
 }
 
 /**
  * Get list of all Juzs
  */
 export function getJuzList(): Juz[] {
-  const juzs: Juz[] = [];
-  
-  for (let i = 1; i <= 30; i++) {
-    const juzInfo = juz(i);
-    if (juzInfo) {
-      juzs.push(juzInfo);
-    }
-  }
-  
-  return juzs;
+  return [...divisions.juzs];
 }
 
 /**
  * Get total number of pages in the Quran
  */
 export function getPageCount(): number {
-  return 604;
+  return activeLayout.pageCount;
 }
 
 /**
  * Get information about a specific page
  */
 export function page(pageNumber: number): { startSurah: number; startAyah: number; endSurah: number; endAyah: number } | null {
-  if (pageNumber < 1 || pageNumber > 604) {
-    return null;
-  }
+  const range = activeLayout.getPageRange(pageNumber);
   
-  const pageMeta = quran.getPageMeta(pageNumber as any);
-  
-  if (!pageMeta) {
+  if (!range) {
     return null;
   }
   
-  const startSurahAyah = quran.findSurahAyahByAyahId(pageMeta.firstAyahId);
-  const endSurahAyah = quran.findSurahAyahByAyahId(pageMeta.lastAyahId);
+  const { firstAyahId, lastAyahId } = range;
   
   return {
-    startSurah: startSurahAyah[0],
-    startAyah: startSurahAyah[1],
-    endSurah: endSurahAyah[0],
-    endAyah: endSurahAyah[1],
+    startSurah: QURAN_INDEX.ayahSurah[firstAyahId],
+    startAyah: QURAN_INDEX.ayahNumber[firstAyahId],
+    endSurah: QURAN_INDEX.ayahSurah[lastAyahId],
+    endAyah: QURAN_INDEX.ayahNumber[lastAyahId],
   };
 }
 
 /**
- * Get all ayahs in a specific Surah
+ * Get a specific Juz by ID (alias for juz function)
  */
-export function getAyahsForSurah(surahId: number): Ayah[] {
-  const surahInfo = surah(surahId);
-  
-  if (!surahInfo) {
-    return [];
-  }
-  
-  const ayahs: Ayah[] = [];
-  
-  for (let i = 1; i <= surahInfo.ayahCount; i++) {
-    ayahs.push({
-      surahId,
-      ayahNumber: i,
-      ayahKey: `${surahId}:${i}`,
-    });
-  }
-  
-  return ayahs;
+export function getJuzById(juzId: number): Juz | null {
+  return juz(juzId);
 }
 
 /**
- * Get verses for a specific page
+ * Get a specific Surah by ID (alias for surah function)
  */
-export function getVersesByPage(pageNum: number): Ayah[] {
-  const pageInfo = page(pageNum);
-  
-  if (!pageInfo) {
-    return [];
-  }
-  
-  const ayahs: Ayah[] = [];
-  
-  if (pageInfo.startSurah === pageInfo.endSurah) {
-    for (let i = pageInfo.startAyah; i <= pageInfo.endAyah; i++) {
-      ayahs.push({
-        surahId: pageInfo.startSurah,
-        ayahNumber: i,
-        ayahKey: `${pageInfo.startSurah}:${i}`,
-      });
-    }
-  } else {
-    const firstSurahInfo = surah(pageInfo.startSurah);
-    if (firstSurahInfo) {
-      for (let i = pageInfo.startAyah; i <= firstSurahInfo.ayahCount; i++) {
-        ayahs.push({
-          surahId: pageInfo.startSurah,
-          ayahNumber: i,
-          ayahKey: `${pageInfo.startSurah}:${i}`,
-        });
-      }
-    }
-    
-    for (let s = pageInfo.startSurah + 1; s < pageInfo.endSurah; s++) {
-      const middleSurahInfo = surah(s);
-      if (middleSurahInfo) {
-        for (let i = 1; i <= middleSurahInfo.ayahCount; i++) {
-          ayahs.push({
-            surahId: s,
-            ayahNumber: i,
-            ayahKey: `${s}:${i}`,
-          });
-        }
-      }
-    }
-    
-    for (let i = 1; i <= pageInfo.endAyah; i++) {
-      ayahs.push({
-        surahId: pageInfo.endSurah,
-        ayahNumber: i,
-        ayahKey: `${pageInfo.endSurah}:${i}`,
-      });
-    }
-  }
-  
-  return ayahs;
+export function getSurahById(surahId: number): Surah | null {
+  return surah(surahId);
 }
 
 /**
- * Get a specific Juz by ID (alias for juz function)
+ * Get a specific Hizb by ID (alias for hizb function)
  */
-export function getJuzById(juzId: number): Juz | null {
-  return juz(juzId);
+export function getHizbById(hizbId: number): QuranDivision | null {
+  return hizb(hizbId);
 }
 
 /**
- * Get a specific Surah by ID (alias for surah function)
+ * Get a specific Rub' al-Hizb by ID (alias for rubAlHizb function)
  */
-export function getSurahById(surahId: number): Surah | null {
-  return surah(surahId);
+export function getRubAlHizbById(rubId: number): QuranDivision | null {
+  return rubAlHizb(rubId);
+}
+
+/**
+ * Get a specific Manzil by ID (alias for manzil function)
+ */
+export function getManzilById(manzilId: number): QuranDivision | null {
+  return manzil(manzilId);
 }
 
 /**
@@ -250,13 +241,48 @@ export function getAyahRangeForPage(pageNum: number): { start: string; end: stri
  * Get page number for a specific ayah
  */
 export function getPageForAyah(surahId: number, ayahNumber: number): number | null {
-  try {
-    const ayahId = quran.findAyahIdBySurah(surahId as any, ayahNumber as any);
-    const ayahMeta = quran.getAyahMeta(ayahId);
-    return ayahMeta.page;
-  } catch (error) {
-    return null;
-  }
+  const ayahId = findAyahId(surahId, ayahNumber);
+  return ayahId ? activeLayout.getPageForAyahId(ayahId) : null;
+}
+
+/**
+ * Get juz number for a specific ayah
+ */
+export function getJuzForAyah(surahId: number, ayahNumber: number): number | null {
+  const ayahId = findAyahId(surahId, ayahNumber);
+  return ayahId ? QURAN_INDEX.ayahJuz[ayahId] : null;
+}
+
+/**
+ * Get hizb number for a specific ayah
+ */
+export function getHizbForAyah(surahId: number, ayahNumber: number): number | null {
+  const ayahId = findAyahId(surahId, ayahNumber);
+  return ayahId ? QURAN_INDEX.ayahHizb[ayahId] : null;
+}
+
+/**
+ * Get rub' al-hizb number for a specific ayah
+ */
+export function getRubAlHizbForAyah(surahId: number, ayahNumber: number): number | null {
+  const ayahId = findAyahId(surahId, ayahNumber);
+  return ayahId ? QURAN_INDEX.ayahRub[ayahId] : null;
+}
+
+/**
+ * Get manzil number for a specific ayah
+ */
+export function getManzilForAyah(surahId: number, ayahNumber: number): number | null {
+  const ayahId = findAyahId(surahId, ayahNumber);
+  return ayahId ? QURAN_INDEX.ayahManzil[ayahId] : null;
+}
+
+/**
+ * Get ruku' number (counted through the whole Quran) for a specific ayah
+ */
+export function getRukuForAyah(surahId: number, ayahNumber: number): number | null {
+  const ayahId = findAyahId(surahId, ayahNumber);
+  return ayahId ? QURAN_INDEX.ayahRuku[ayahId] : null;
 }
 
 /**
@@ -278,3 +304,48 @@ export function parseAyahReference(ayahRef: string): { surahId: number; ayahNumb
   
   return { surahId, ayahNumber };
 }
+
+/**
+ * Get the absolute ayah index (1-6236) for an ayah reference string
+ */
+export function getAyahIdForReference(ayahRef: string): number | null {
+  const parsed = parseAyahReference(ayahRef);
+  
+  if (!parsed) {
+    return null;
+  }
+  
+  return findAyahId(parsed.surahId, parsed.ayahNumber);
+}
+
+/**
+ * Get the ayah reference string ("surah:ayah") for an absolute ayah index
+ */
+export function getAyahReferenceForId(ayahId: number): string | null {
+  return isAyahId(ayahId) ? referenceForAyahId(ayahId) : null;
+}
+
+/**
+ * Get the surah and ayah numbers for an absolute ayah index
+ */
+export function getSurahAyahForId(ayahId: number): { surahId: number; ayahNumber: number } | null {
+  if (!isAyahId(ayahId)) {
+    return null;
+  }
+  
+  return { surahId: QURAN_INDEX.ayahSurah[ayahId], ayahNumber: QURAN_INDEX.ayahNumber[ayahId] };
+}
+
+/**
+ * Get page number for an absolute ayah index
+ */
+export function getPageForAyahId(ayahId: number): number | null {
+  return isAyahId(ayahId) ? activeLayout.getPageForAyahId(ayahId) : null;
+}
+
+/**
+ * Get juz number for an absolute ayah index
+ */
+export function getJuzForAyahId(ayahId: number): number | null {
+  return isAyahId(ayahId) ? QURAN_INDEX.ayahJuz[ayahId] : null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Quran Index Service
+ * Lookup tables built once from quran-meta at startup, so hot paths (plan generation,
+ * calendar rendering) answer metadata queries with an array read
+ */
+
+import { quran } from 'quran-meta';
+
+/** Number of ayahs in the Quran */
+export const AYAH_COUNT = 6236;
+
+/** Number of surahs in the Quran */
+export const SURAH_COUNT = 114;
+
+/** Number of pages in the Madani mushaf */
+export const PAGE_COUNT = 604;
+
+/**
+ * Lookup tables, each indexed by absolute ayah index (1-6236), surah (1-114) or page (1-604)
+ *
+ * Index 0 of every table is unused.
+ */
+export interface QuranIndex {
+  /** Surah of each ayah */
+  ayahSurah: Uint8Array;
+  /** Number of each ayah within its surah */
+  ayahNumber: Uint16Array;
+  /** Mushaf page of each ayah */
+  ayahPage: Uint16Array;
+  /** Juz of each ayah */
+  ayahJuz: Uint8Array;
+  /** Hizb of each ayah */
+  ayahHizb: Uint8Array;
+  /** Rub' al-hizb of each ayah */
+  ayahRub: Uint8Array;
+  /** Manzil of each ayah */
+  ayahManzil: Uint8Array;
+  /** Ruku' (1-556, numbered through the whole Quran) of each ayah */
+  ayahRuku: Uint16Array;
+  /** First ayah of each surah */
+  surahFirstAyah: Uint16Array;
+  /** Last ayah of each surah */
+  surahLastAyah: Uint16Array;
+  /** First ayah of each page */
+  pageFirstAyah: Uint16Array;
+  /** Last ayah of each page */
+  pageLastAyah: Uint16Array;
+}
+
+/**
+ * Build the lookup tables from quran-meta
+ */
+export function buildQuranIndex(): QuranIndex {
+  const index: QuranIndex = {
+    ayahSurah: new Uint8Array(AYAH_COUNT + 1),
+    ayahNumber: new Uint16Array(AYAH_COUNT + 1),
+    ayahPage: new Uint16Array(AYAH_COUNT + 1),
+    ayahJuz: new Uint8Array(AYAH_COUNT + 1),
+    ayahHizb: new Uint8Array(AYAH_COUNT + 1),
+    ayahRub: new Uint8Array(AYAH_COUNT + 1),
+    ayahManzil: new Uint8Array(AYAH_COUNT + 1),
+    ayahRuku: new Uint16Array(AYAH_COUNT + 1),
+    surahFirstAyah: new Uint16Array(SURAH_COUNT + 1),
+    surahLastAyah: new Uint16Array(SURAH_COUNT + 1),
+    pageFirstAyah: new Uint16Array(PAGE_COUNT + 1),
+    pageLastAyah: new Uint16Array(PAGE_COUNT + 1),
+  };
+  
+  for (let ayahId = 1; ayahId <= AYAH_COUNT; ayahId++) {
+    const meta = quran.getAyahMeta(ayahId);
+    
+    index.ayahSurah[ayahId] = meta.surah;
+    index.ayahNumber[ayahId] = meta.ayah;
+    index.ayahPage[ayahId] = meta.page;
+    index.ayahJuz[ayahId] = meta.juz;
+    index.ayahHizb[ayahId] = meta.hizbId;
+    index.ayahRub[ayahId] = meta.rubAlHizbId;
+    index.ayahRuku[ayahId] = meta.ruku;
+    
+    if (!index.surahFirstAyah[meta.surah]) {
+      index.surahFirstAyah[meta.surah] = ayahId;
+    }
+    index.surahLastAyah[meta.surah] = ayahId;
+    
+    if (!index.pageFirstAyah[meta.page]) {
+      index.pageFirstAyah[meta.page] = ayahId;
+    }
+    index.pageLastAyah[meta.page] = ayahId;
+  }
+  
+  for (let manzilNumber = 1; manzilNumber <= 7; manzilNumber++) {
+    const { firstAyahId, lastAyahId } = quran.getManzilMeta(manzilNumber);
+    index.ayahManzil.fill(manzilNumber, firstAyahId, lastAyahId + 1);
+  }
+  
+  return index;
+}
+
+/** Lookup tables for the whole app, built when the service is first imported */
+export const QURAN_INDEX: QuranIndex = buildQuranIndex();
+
+/**
+ * Check whether a number is an absolute ayah index (1-6236)
+ */
+export function isAyahId(ayahId: number): boolean {
+  return Number.isInteger(ayahId) && ayahId >= 1 && ayahId <= AYAH_COUNT;
+}
+
+/**
+ * Get the absolute ayah index for a surah and ayah number, or null if there is no such ayah
+ */
+export function findAyahId(surahId: number, ayahNumber: number): number | null {
+  if (!Number.isInteger(surahId) || surahId < 1 || surahId > SURAH_COUNT) {
+    return null;
+  }
+  
+  const ayahId = QURAN_INDEX.surahFirstAyah[surahId] + ayahNumber - 1;
+  
+  if (!Number.isInteger(ayahNumber) || ayahNumber < 1 || ayahId > QURAN_INDEX.surahLastAyah[surahId]) {
+    return null;
+  }
+  
+  return ayahId;
+}
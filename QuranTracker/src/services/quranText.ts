@@ -0,0 +1,227 @@
+/**
+ * Quran Text Service
+ * Provides the Arabic text of ayahs, and their translations, using the quran-json package
+ */
+
+import quranJson from 'quran-json/dist/quran.json';
+import { Ayah, SurahText, TranslationLanguage } from '@/types';
+import {
+  getPageForAyah,
+  getJuzForAyah,
+  getAyahIdForReference,
+  getAyahReferenceForId,
+  getAyahRangeForPage,
+  getSurahById,
+  parseAyahReference,
+} from '@/services/quranData';
+
+interface QuranJsonChapter {
+  id: number;
+  name: string;
+  transliteration: string;
+  verses: { id: number; text: string }[];
+}
+
+interface QuranJsonTranslatedChapter {
+  id: number;
+  translation: string;
+  verses: { id: number; translation: string }[];
+}
+
+const chapters = quranJson as QuranJsonChapter[];
+
+/**
+ * Translations bundled with quran-json, each loaded the first time it is used
+ */
+export const TRANSLATIONS: Record<
+  TranslationLanguage,
+  { name: string; load: () => QuranJsonTranslatedChapter[] }
+> = {
+  bn: { name: 'বাংলা', load: () => require('quran-json/dist/quran_bn.json') },
+  en: { name: 'English', load: () => require('quran-json/dist/quran_en.json') },
+  es: { name: 'Español', load: () => require('quran-json/dist/quran_es.json') },
+  fr: { name: 'Français', load: () => require('quran-json/dist/quran_fr.json') },
+  id: { name: 'Bahasa Indonesia', load: () => require('quran-json/dist/quran_id.json') },
+  ru: { name: 'Русский', load: () => require('quran-json/dist/quran_ru.json') },
+  sv: { name: 'Svenska', load: () => require('quran-json/dist/quran_sv.json') },
+  tr: { name: 'Türkçe', load: () => require('quran-json/dist/quran_tr.json') },
+  ur: { name: 'اردو', load: () => require('quran-json/dist/quran_ur.json') },
+  zh: { name: '中文', load: () => require('quran-json/dist/quran_zh.json') },
+};
+
+const loadedTranslations: Partial<Record<TranslationLanguage, QuranJsonTranslatedChapter[]>> = {};
+
+/**
+ * Get a translation's chapters, loading the bundle if needed
+ */
+function getTranslatedChapters(language: TranslationLanguage): QuranJsonTranslatedChapter[] {
+  if (!loadedTranslations[language]) {
+    loadedTranslations[language] = TRANSLATIONS[language].load();
+  }
+  
+  return loadedTranslations[language]!;
+}
+
+/**
+ * The bismillah, as written at the start of Al-Fatihah
+ */
+export const BISMILLAH = chapters[0].verses[0].text;
+
+/**
+ * Get an ayah with its text, page and juz, and optionally its translation
+ */
+export function getAyah(ayahRef: string, translation?: TranslationLanguage): Ayah | null {
+  const parsed = parseAyahReference(ayahRef);
+  if (!parsed) {
+    return null;
+  }
+  
+  const verse = chapters[parsed.surahId - 1]?.verses[parsed.ayahNumber - 1];
+  if (!verse) {
+    return null;
+  }
+  
+  return {
+    surahId: parsed.surahId,
+    ayahNumber: parsed.ayahNumber,
+    page: getPageForAyah(parsed.surahId, parsed.ayahNumber) || 1,
+    juz: getJuzForAyah(parsed.surahId, parsed.ayahNumber) || 1,
+    text: verse.text,
+    ...(translation && {
+      translation: getAyahTranslation(ayahRef, translation) ?? undefined,
+    }),
+    key: `${parsed.surahId}:${parsed.ayahNumber}`,
+  };
+}
+
+/**
+ * Get the Arabic text of a single ayah
+ */
+export function getAyahText(ayahRef: string): string | null {
+  return getAyah(ayahRef)?.text ?? null;
+}
+
+/**
+ * Get the translation of a single ayah
+ */
+export function getAyahTranslation(ayahRef: string, language: TranslationLanguage): string | null {
+  const parsed = parseAyahReference(ayahRef);
+  if (!parsed) {
+    return null;
+  }
+  
+  const verse = getTranslatedChapters(language)[parsed.surahId - 1]?.verses[parsed.ayahNumber - 1];
+  return verse?.translation ?? null;
+}
+
+/**
+ * Get the translated name of a surah (e.g. "The Opener")
+ */
+export function getSurahNameTranslation(surahId: number, language: TranslationLanguage): string | null {
+  return getTranslatedChapters(language)[surahId - 1]?.translation ?? null;
+}
+
+/**
+ * Get the text of an ayah range, grouped by surah
+ * 
+ * A surah that begins within the range gets a bismillah header, except
+ * Al-Fatihah (where the bismillah is its first ayah) and At-Tawbah (which
+ * has none). Pass a translation language to include each ayah's translation.
+ */
+export function getTextForRange(
+  fromAyah: string,
+  toAyah: string,
+  translation?: TranslationLanguage,
+): SurahText[] {
+  const fromId = getAyahIdForReference(fromAyah);
+  const toId = getAyahIdForReference(toAyah);
+  
+  if (!fromId || !toId || fromId > toId) {
+    return [];
+  }
+  
+  const sections: SurahText[] = [];
+  
+  for (let ayahId = fromId; ayahId <= toId; ayahId++) {
+    const ayahRef = getAyahReferenceForId(ayahId);
+    const ayah = ayahRef ? getAyah(ayahRef, translation) : null;
+    if (!ayah) continue;
+    
+    let section = sections[sections.length - 1];
+    if (!section || section.surahId !== ayah.surahId) {
+      const chapter = chapters[ayah.surahId - 1];
+      section = {
+        surahId: ayah.surahId,
+        name: chapter.name,
+        transliteration: chapter.transliteration,
+        showBismillah: ayah.ayahNumber === 1 && ayah.surahId !== 1 && ayah.surahId !== 9,
+        ayahs: [],
+      };
+      sections.push(section);
+    }
+    
+    section.ayahs.push(ayah);
+  }
+  
+  return sections;
+}
+
+/**
+ * Get the ayahs of a range, with their text
+ */
+function getAyahsForRange(fromAyah: string, toAyah: string): Ayah[] {
+  return getTextForRange(fromAyah, toAyah).flatMap(section => section.ayahs);
+}
+
+/**
+ * Get all ayahs in a specific Surah, with their text
+ */
+export function getAyahsForSurah(surahId: number): Ayah[] {
+  const surahInfo = getSurahById(surahId);
+  
+  if (!surahInfo) {
+    return [];
+  }
+  
+  return getAyahsForRange(`${surahId}:1`, `${surahId}:${surahInfo.ayahCount}`);
+}
+
+/**
+ * Get verses for a specific page, with their text
+ */
+export function getVersesByPage(pageNum: number): Ayah[] {
+  const range = getAyahRangeForPage(pageNum);
+  
+  if (!range) {
+    return [];
+  }
+  
+  return getAyahsForRange(range.start, range.end);
+}
+
+/** Arabic letters, without diacritics, pause marks or other signs */
+const ARABIC_LETTER = /[ء-غف-يٱ]/g;
+
+const ayahWeights: Partial<Record<'words' | 'letters', Uint16Array>> = {};
+
+/**
+ * Get the number of words or letters in every ayah, indexed by absolute ayah index (1-6236)
+ * 
+ * Counts come from the Arabic text and are worked out the first time each measure is used.
+ */
+export function getAyahWeights(measure: 'words' | 'letters'): Uint16Array {
+  if (!ayahWeights[measure]) {
+    const verses = chapters.flatMap(chapter => chapter.verses);
+    const weights = new Uint16Array(verses.length + 1);
+    
+    verses.forEach((verse, i) => {
+      weights[i + 1] = measure === 'words'
+        ? verse.text.split(/\s+/).filter(Boolean).length
+        : verse.text.match(ARABIC_LETTER)?.length ?? 0;
+    });
+    
+    ayahWeights[measure] = weights;
+  }
+  
+  return ayahWeights[measure]!;
+}
@@ -0,0 +1,215 @@
+/**
+ * Storage Service
+ * Bridges the Zustand goal store and AsyncStorage using a versioned schema
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createJSONStorage } from 'zustand/middleware';
+import { AppSettings, DailyAssignment, PersistedGoalState, UserGoal } from '@/types';
+import { isQuranRef, parseQuranRef, formatQuranRef, getPageOfRef } from '@/lib/quranRef';
+
+/** AsyncStorage key holding the persisted goal store */
+export const GOAL_STORAGE_KEY = 'quran-tracker/goal-store';
+
+/** AsyncStorage key holding the persisted app settings */
+export const SETTINGS_STORAGE_KEY = 'quran-tracker/settings';
+
+/**
+ * Current schema version of the persisted goal store.
+ * Bump this and add a step to `migrations` whenever the persisted shape changes.
+ */
+export const GOAL_SCHEMA_VERSION = 3;
+
+/** Keys whose values are serialized `Date` objects */
+const DATE_KEYS = [
+  'date',
+  'startDate',
+  'endDate',
+  'deadline',
+  'lastUpdated',
+  'revisedAt',
+  'dueDate',
+  'lastReviewedAt',
+];
+
+/** Keys whose values are `QuranRef`s, stored as "surah:ayah" strings */
+const REF_KEYS = ['fromAyah', 'toAyah', 'readUpTo', 'startFrom', 'replannedFrom'];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON reviver that turns ISO date strings back into `Date` objects
+ */
+export const reviveDates = (key: string, value: unknown): unknown => {
+  if (
+    DATE_KEYS.includes(key) &&
+    typeof value === 'string' &&
+    ISO_DATE_PATTERN.test(value)
+  ) {
+    return new Date(value);
+  }
+  
+  return value;
+};
+
+/**
+ * JSON reviver that also turns "surah:ayah" strings back into `QuranRef`s
+ * 
+ * Strings that are not real ayahs are kept as they are, so goal validation
+ * can report them.
+ */
+export const reviveGoalState = (key: string, value: unknown): unknown => {
+  if (REF_KEYS.includes(key) && typeof value === 'string') {
+    return parseQuranRef(value) ?? value;
+  }
+  
+  return reviveDates(key, value);
+};
+
+/**
+ * JSON replacer that stores `QuranRef`s as "surah:ayah" strings
+ */
+export const serializeGoalState = (key: string, value: unknown): unknown => {
+  if (REF_KEYS.includes(key) && isQuranRef(value)) {
+    return formatQuranRef(value);
+  }
+  
+  return value;
+};
+
+/**
+ * Version 0: unversioned `{ currentGoal, plan }` snapshots without streak data,
+ * whose assignments may lack page numbers and flags
+ */
+interface GoalStateV0 {
+  currentGoal?: UserGoal | null;
+  plan?: Array<
+    Pick<DailyAssignment, 'date' | 'fromAyah' | 'toAyah'> &
+      Partial<Pick<DailyAssignment, 'fromPage' | 'toPage' | 'completed' | 'isCatchUpDay'>>
+  >;
+  lastUpdated?: Date | null;
+}
+
+/**
+ * Version 1: a single `currentGoal` and `plan`, before multiple goals were supported
+ */
+interface GoalStateV1 {
+  currentGoal: UserGoal | null;
+  plan: DailyAssignment[];
+  lastUpdated: Date | null;
+  currentStreak: number;
+  bestStreak: number;
+  totalDaysCompleted: number;
+}
+
+/**
+ * Version 2: keyed goals, before recurring routines were stored
+ */
+type GoalStateV2 = Omit<PersistedGoalState, 'routines'>;
+
+/**
+ * Migration steps, keyed by the schema version they upgrade from
+ */
+const migrations: {
+  0: (state: GoalStateV0 | undefined) => GoalStateV1;
+  1: (state: GoalStateV1) => GoalStateV2;
+  2: (state: GoalStateV2) => PersistedGoalState;
+} = {
+  0: state => {
+    const plan: DailyAssignment[] = (state?.plan ?? []).map(assignment => ({
+      ...assignment,
+      fromPage: assignment.fromPage ?? getPageOfRef(assignment.fromAyah),
+      toPage: assignment.toPage ?? getPageOfRef(assignment.toAyah),
+      completed: Boolean(assignment.completed),
+      isCatchUpDay: Boolean(assignment.isCatchUpDay),
+    }));
+    
+    return {
+      currentGoal: state?.currentGoal ?? null,
+      plan,
+      lastUpdated: state?.lastUpdated ?? null,
+      currentStreak: 0,
+      bestStreak: 0,
+      totalDaysCompleted: plan.filter(a => a.completed).length,
+    };
+  },
+  
+  1: state => {
+    const goal = state.currentGoal;
+    
+    if (!goal) {
+      return { goals: {}, activeGoalId: null, lastUpdated: state.lastUpdated };
+    }
+    
+    return {
+      goals: {
+        [goal.id]: {
+          goal,
+          plan: state.plan,
+          currentStreak: state.currentStreak,
+          bestStreak: state.bestStreak,
+          totalDaysCompleted: state.totalDaysCompleted,
+          archived: false,
+        },
+      },
+      activeGoalId: goal.id,
+      lastUpdated: state.lastUpdated,
+    };
+  },
+  
+  2: state => ({
+    ...state,
+    routines: {},
+  }),
+};
+
+/**
+ * Check whether a schema version has a migration step
+ */
+const hasMigration = (version: number): version is keyof typeof migrations => {
+  return version in migrations;
+};
+
+/**
+ * Upgrade a persisted snapshot from `fromVersion` to the current schema version
+ * 
+ * Each step expects the shape of the version it upgrades from; the snapshot
+ * is only known to have that shape because it was saved under that version.
+ */
+export const migrateGoalState = (
+  persistedState: unknown,
+  fromVersion: number,
+): PersistedGoalState => {
+  let state = persistedState;
+  
+  for (let version = fromVersion; version < GOAL_SCHEMA_VERSION; version++) {
+    if (!hasMigration(version)) {
+      throw new Error(`No migration from goal schema version ${version}`);
+    }
+    
+    const migration = migrations[version] as (snapshot: unknown) => unknown;
+    state = migration(state);
+  }
+  
+  return state as PersistedGoalState;
+};
+
+/**
+ * AsyncStorage-backed storage for the goal store's persist middleware
+ */
+export const goalStorage = createJSONStorage<PersistedGoalState>(
+  () => AsyncStorage,
+  { reviver: reviveGoalState, replacer: serializeGoalState },
+);
+
+/**
+ * AsyncStorage-backed storage for the settings store's persist middleware
+ */
+export const settingsStorage = createJSONStorage<AppSettings>(() => AsyncStorage);
+
+/**
+ * Remove all persisted goal data
+ */
+export const clearGoalStorage = (): Promise<void> => {
+  return AsyncStorage.removeItem(GOAL_STORAGE_KEY);
+};
@@ -0,0 +1,133 @@
+/**
+ * Surah Names
+ * Arabic, transliterated and translated names of all 114 surahs
+ */
+
+import { SurahName } from '@/types';
+
+/**
+ * Names of each surah, in mushaf order
+ */
+export const SURAH_NAMES: readonly SurahName[] = [
+  { id: 1, arabic: 'الفاتحة', transliteration: 'Al-Fatihah', translation: 'The Opener' },
+  { id: 2, arabic: 'البقرة', transliteration: 'Al-Baqarah', translation: 'The Cow' },
+  { id: 3, arabic: 'آل عمران', transliteration: "Ali 'Imran", translation: 'Family of Imran' },
+  { id: 4, arabic: 'النساء', transliteration: 'An-Nisa', translation: 'The Women' },
+  { id: 5, arabic: 'المائدة', transliteration: "Al-Ma'idah", translation: 'The Table Spread' },
+  { id: 6, arabic: 'الأنعام', transliteration: "Al-An'am", translation: 'The Cattle' },
+  { id: 7, arabic: 'الأعراف', transliteration: "Al-A'raf", translation: 'The Heights' },
+  { id: 8, arabic: 'الأنفال', transliteration: 'Al-Anfal', translation: 'The Spoils of War' },
+  { id: 9, arabic: 'التوبة', transliteration: 'At-Tawbah', translation: 'The Repentance' },
+  { id: 10, arabic: 'يونس', transliteration: 'Yunus', translation: 'Jonah' },
+  { id: 11, arabic: 'هود', transliteration: 'Hud', translation: 'Hud' },
+  { id: 12, arabic: 'يوسف', transliteration: 'Yusuf', translation: 'Joseph' },
+  { id: 13, arabic: 'الرعد', transliteration: "Ar-Ra'd", translation: 'The Thunder' },
+  { id: 14, arabic: 'ابراهيم', transliteration: 'Ibrahim', translation: 'Abraham' },
+  { id: 15, arabic: 'الحجر', transliteration: 'Al-Hijr', translation: 'The Rocky Tract' },
+  { id: 16, arabic: 'النحل', transliteration: 'An-Nahl', translation: 'The Bee' },
+  { id: 17, arabic: 'الإسراء', transliteration: 'Al-Isra', translation: 'The Night Journey' },
+  { id: 18, arabic: 'الكهف', transliteration: 'Al-Kahf', translation: 'The Cave' },
+  { id: 19, arabic: 'مريم', transliteration: 'Maryam', translation: 'Mary' },
+  { id: 20, arabic: 'طه', transliteration: 'Taha', translation: 'Ta-Ha' },
+  { id: 21, arabic: 'الأنبياء', transliteration: 'Al-Anbya', translation: 'The Prophets' },
+  { id: 22, arabic: 'الحج', transliteration: 'Al-Hajj', translation: 'The Pilgrimage' },
+  { id: 23, arabic: 'المؤمنون', transliteration: "Al-Mu'minun", translation: 'The Believers' },
+  { id: 24, arabic: 'النور', transliteration: 'An-Nur', translation: 'The Light' },
+  { id: 25, arabic: 'الفرقان', transliteration: 'Al-Furqan', translation: 'The Criterion' },
+  { id: 26, arabic: 'الشعراء', transliteration: "Ash-Shu'ara", translation: 'The Poets' },
+  { id: 27, arabic: 'النمل', transliteration: 'An-Naml', translation: 'The Ant' },
+  { id: 28, arabic: 'القصص', transliteration: 'Al-Qasas', translation: 'The Stories' },
+  { id: 29, arabic: 'العنكبوت', transliteration: "Al-'Ankabut", translation: 'The Spider' },
+  { id: 30, arabic: 'الروم', transliteration: 'Ar-Rum', translation: 'The Romans' },
+  { id: 31, arabic: 'لقمان', transliteration: 'Luqman', translation: 'Luqman' },
+  { id: 32, arabic: 'السجدة', transliteration: 'As-Sajdah', translation: 'The Prostration' },
+  { id: 33, arabic: 'الأحزاب', transliteration: 'Al-Ahzab', translation: 'The Combined Forces' },
+  { id: 34, arabic: 'سبإ', transliteration: 'Saba', translation: 'Sheba' },
+  { id: 35, arabic: 'فاطر', transliteration: 'Fatir', translation: 'Originator' },
+  { id: 36, arabic: 'يس', transliteration: 'Ya-Sin', translation: 'Ya Sin' },
+  { id: 37, arabic: 'الصافات', transliteration: 'As-Saffat', translation: 'Those who set the Ranks' },
+  { id: 38, arabic: 'ص', transliteration: 'Sad', translation: 'The Letter "Saad"' },
+  { id: 39, arabic: 'الزمر', transliteration: 'Az-Zumar', translation: 'The Troops' },
+  { id: 40, arabic: 'غافر', transliteration: 'Ghafir', translation: 'The Forgiver' },
+  { id: 41, arabic: 'فصلت', transliteration: 'Fussilat', translation: 'Explained in Detail' },
+  { id: 42, arabic: 'الشورى', transliteration: 'Ash-Shuraa', translation: 'The Consultation' },
+  { id: 43, arabic: 'الزخرف', transliteration: 'Az-Zukhruf', translation: 'The Ornaments of Gold' },
+  { id: 44, arabic: 'الدخان', transliteration: 'Ad-Dukhan', translation: 'The Smoke' },
+  { id: 45, arabic: 'الجاثية', transliteration: 'Al-Jathiyah', translation: 'The Crouching' },
+  { id: 46, arabic: 'الأحقاف', transliteration: 'Al-Ahqaf', translation: 'The Wind-Curved Sandhills' },
+  { id: 47, arabic: 'محمد', transliteration: 'Muhammad', translation: 'Muhammad' },
+  { id: 48, arabic: 'الفتح', transliteration: 'Al-Fath', translation: 'The Victory' },
+  { id: 49, arabic: 'الحجرات', transliteration: 'Al-Hujurat', translation: 'The Rooms' },
+  { id: 50, arabic: 'ق', transliteration: 'Qaf', translation: 'The Letter "Qaf"' },
+  { id: 51, arabic: 'الذاريات', transliteration: 'Adh-Dhariyat', translation: 'The Winnowing Winds' },
+  { id: 52, arabic: 'الطور', transliteration: 'At-Tur', translation: 'The Mount' },
+  { id: 53, arabic: 'النجم', transliteration: 'An-Najm', translation: 'The Star' },
+  { id: 54, arabic: 'القمر', transliteration: 'Al-Qamar', translation: 'The Moon' },
+  { id: 55, arabic: 'الرحمن', transliteration: 'Ar-Rahman', translation: 'The Beneficent' },
+  { id: 56, arabic: 'الواقعة', transliteration: "Al-Waqi'ah", translation: 'The Inevitable' },
+  { id: 57, arabic: 'الحديد', transliteration: 'Al-Hadid', translation: 'The Iron' },
+  { id: 58, arabic: 'المجادلة', transliteration: 'Al-Mujadila', translation: 'The Pleading Woman' },
+  { id: 59, arabic: 'الحشر', transliteration: 'Al-Hashr', translation: 'The Exile' },
+  { id: 60, arabic: 'الممتحنة', transliteration: 'Al-Mumtahanah', translation: 'She that is to be examined' },
+  { id: 61, arabic: 'الصف', transliteration: 'As-Saf', translation: 'The Ranks' },
+  { id: 62, arabic: 'الجمعة', transliteration: "Al-Jumu'ah", translation: 'The Congregation, Friday' },
+  { id: 63, arabic: 'المنافقون', transliteration: 'Al-Munafiqun', translation: 'The Hypocrites' },
+  { id: 64, arabic: 'التغابن', transliteration: 'At-Taghabun', translation: 'The Mutual Disillusion' },
+  { id: 65, arabic: 'الطلاق', transliteration: 'At-Talaq', translation: 'The Divorce' },
+  { id: 66, arabic: 'التحريم', transliteration: 'At-Tahrim', translation: 'The Prohibition' },
+  { id: 67, arabic: 'الملك', transliteration: 'Al-Mulk', translation: 'The Sovereignty' },
+  { id: 68, arabic: 'القلم', transliteration: 'Al-Qalam', translation: 'The Pen' },
+  { id: 69, arabic: 'الحاقة', transliteration: 'Al-Haqqah', translation: 'The Reality' },
+  { id: 70, arabic: 'المعارج', transliteration: "Al-Ma'arij", translation: 'The Ascending Stairways' },
+  { id: 71, arabic: 'نوح', transliteration: 'Nuh', translation: 'Noah' },
+  { id: 72, arabic: 'الجن', transliteration: 'Al-Jinn', translation: 'The Jinn' },
+  { id: 73, arabic: 'المزمل', transliteration: 'Al-Muzzammil', translation: 'The Enshrouded One' },
+  { id: 74, arabic: 'المدثر', transliteration: 'Al-Muddaththir', translation: 'The Cloaked One' },
+  { id: 75, arabic: 'القيامة', transliteration: 'Al-Qiyamah', translation: 'The Resurrection' },
+  { id: 76, arabic: 'الانسان', transliteration: 'Al-Insan', translation: 'The Man' },
+  { id: 77, arabic: 'المرسلات', transliteration: 'Al-Mursalat', translation: 'The Emissaries' },
+  { id: 78, arabic: 'النبإ', transliteration: 'An-Naba', translation: 'The Tidings' },
+  { id: 79, arabic: 'النازعات', transliteration: "An-Nazi'at", translation: 'Those who drag forth' },
+  { id: 80, arabic: 'عبس', transliteration: "'Abasa", translation: 'He Frowned' },
+  { id: 81, arabic: 'التكوير', transliteration: 'At-Takwir', translation: 'The Overthrowing' },
+  { id: 82, arabic: 'الإنفطار', transliteration: 'Al-Infitar', translation: 'The Cleaving' },
+  { id: 83, arabic: 'المطففين', transliteration: 'Al-Mutaffifin', translation: 'The Defrauding' },
+  { id: 84, arabic: 'الإنشقاق', transliteration: 'Al-Inshiqaq', translation: 'The Sundering' },
+  { id: 85, arabic: 'البروج', transliteration: 'Al-Buruj', translation: 'The Mansions of the Stars' },
+  { id: 86, arabic: 'الطارق', transliteration: 'At-Tariq', translation: 'The Nightcommer' },
+  { id: 87, arabic: 'الأعلى', transliteration: "Al-A'la", translation: 'The Most High' },
+  { id: 88, arabic: 'الغاشية', transliteration: 'Al-Ghashiyah', translation: 'The Overwhelming' },
+  { id: 89, arabic: 'الفجر', transliteration: 'Al-Fajr', translation: 'The Dawn' },
+  { id: 90, arabic: 'البلد', transliteration: 'Al-Balad', translation: 'The City' },
+  { id: 91, arabic: 'الشمس', transliteration: 'Ash-Shams', translation: 'The Sun' },
+  { id: 92, arabic: 'الليل', transliteration: 'Al-Layl', translation: 'The Night' },
+  { id: 93, arabic: 'الضحى', transliteration: 'Ad-Duhaa', translation: 'The Morning Hours' },
+  { id: 94, arabic: 'الشرح', transliteration: 'Ash-Sharh', translation: 'The Relief' },
+  { id: 95, arabic: 'التين', transliteration: 'At-Tin', translation: 'The Fig' },
+  { id: 96, arabic: 'العلق', transliteration: "Al-'Alaq", translation: 'The Clot' },
+  { id: 97, arabic: 'القدر', transliteration: 'Al-Qadr', translation: 'The Power' },
+  { id: 98, arabic: 'البينة', transliteration: 'Al-Bayyinah', translation: 'The Clear Proof' },
+  { id: 99, arabic: 'الزلزلة', transliteration: 'Az-Zalzalah', translation: 'The Earthquake' },
+  { id: 100, arabic: 'العاديات', transliteration: "Al-'Adiyat", translation: 'The Courser' },
+  { id: 101, arabic: 'القارعة', transliteration: "Al-Qari'ah", translation: 'The Calamity' },
+  { id: 102, arabic: 'التكاثر', transliteration: 'At-Takathur', translation: 'The Rivalry in world increase' },
+  { id: 103, arabic: 'العصر', transliteration: "Al-'Asr", translation: 'The Declining Day' },
+  { id: 104, arabic: 'الهمزة', transliteration: 'Al-Humazah', translation: 'The Traducer' },
+  { id: 105, arabic: 'الفيل', transliteration: 'Al-Fil', translation: 'The Elephant' },
+  { id: 106, arabic: 'قريش', transliteration: 'Quraysh', translation: 'Quraysh' },
+  { id: 107, arabic: 'الماعون', transliteration: "Al-Ma'un", translation: 'The Small kindnesses' },
+  { id: 108, arabic: 'الكوثر', transliteration: 'Al-Kawthar', translation: 'The Abundance' },
+  { id: 109, arabic: 'الكافرون', transliteration: 'Al-Kafirun', translation: 'The Disbelievers' },
+  { id: 110, arabic: 'النصر', transliteration: 'An-Nasr', translation: 'The Divine Support' },
+  { id: 111, arabic: 'المسد', transliteration: 'Al-Masad', translation: 'The Palm Fiber' },
+  { id: 112, arabic: 'الإخلاص', transliteration: 'Al-Ikhlas', translation: 'The Sincerity' },
+  { id: 113, arabic: 'الفلق', transliteration: 'Al-Falaq', translation: 'The Daybreak' },
+  { id: 114, arabic: 'الناس', transliteration: 'An-Nas', translation: 'Mankind' },
+];
+
+/**
+ * Get the names of a surah
+ */
+export function getSurahName(surahId: number): SurahName | null {
+  return SURAH_NAMES[surahId - 1] ?? null;
+}
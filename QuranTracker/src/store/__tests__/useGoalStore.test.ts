@@ -0,0 +1,420 @@
+/**
+ * Unit Tests for the Goal Store
+ * 
+ * These tests verify goal, routine and review actions and the selectors built on them.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useGoalStore } from '../useGoalStore';
+import { useSettingsStore } from '../useSettingsStore';
+import { MUSHAF_LAYOUTS } from '@/services/mushafLayouts';
+import { toDayKey } from '@/lib/routines';
+import { offsetRef, getRefsInRange } from '@/lib/quranRef';
+import { UserGoal, ReadingRoutine, QuranRef } from '@/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const startOfToday = (): Date => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+const daysFromToday = (days: number): Date => {
+  const date = startOfToday();
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+const buildGoal = (id: string, overrides: Partial<UserGoal> = {}): UserGoal => ({
+  id,
+  target: 'specific-juz',
+  targetValue: 30,
+  unit: 'pages',
+  dailyAmount: 1,
+  startDate: startOfToday(),
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+  ...overrides,
+});
+
+const khatm = () => buildGoal('khatm', { target: 'whole-quran', targetValue: undefined, dailyAmount: 20 });
+const juz30 = () => buildGoal('juz-30');
+
+const getRecord = (goalId: string) => useGoalStore.getState().goals[goalId];
+
+describe('Goal Store', () => {
+  beforeEach(async () => {
+    useGoalStore.getState().clearPlan();
+    await AsyncStorage.clear();
+  });
+  
+  describe('multiple goals', () => {
+    it('should make the first added goal active and keep it when more are added', () => {
+      const { addGoal } = useGoalStore.getState();
+      
+      addGoal(khatm());
+      addGoal(juz30());
+      
+      const state = useGoalStore.getState();
+      expect(Object.keys(state.goals)).toEqual(['khatm', 'juz-30']);
+      expect(state.activeGoalId).toBe('khatm');
+      expect(getRecord('juz-30').plan.length).toBeGreaterThan(0);
+      expect(getRecord('juz-30').archived).toBe(false);
+    });
+    
+    it('should make a goal active when it is set', () => {
+      const { addGoal, setGoal } = useGoalStore.getState();
+      
+      addGoal(khatm());
+      setGoal(juz30());
+      
+      expect(useGoalStore.getState().activeGoalId).toBe('juz-30');
+    });
+    
+    it('should switch to running goals only', () => {
+      const { addGoal, archiveGoal, switchGoal } = useGoalStore.getState();
+      addGoal(khatm());
+      addGoal(juz30());
+      addGoal(buildGoal('baqarah', { target: 'specific-surah', targetValue: 2 }));
+      
+      switchGoal('juz-30');
+      expect(useGoalStore.getState().activeGoalId).toBe('juz-30');
+      
+      archiveGoal('baqarah');
+      switchGoal('baqarah');
+      switchGoal('unknown');
+      expect(useGoalStore.getState().activeGoalId).toBe('juz-30');
+    });
+    
+    it('should archive a goal and leave the active goal alone', () => {
+      const { addGoal, archiveGoal } = useGoalStore.getState();
+      addGoal(khatm());
+      addGoal(juz30());
+      
+      archiveGoal('juz-30');
+      
+      const state = useGoalStore.getState();
+      expect(getRecord('juz-30').archived).toBe(true);
+      expect(state.activeGoalId).toBe('khatm');
+      expect(state.getActiveGoals().map(record => record.goal.id)).toEqual(['khatm']);
+    });
+    
+    it('should fall back to another running goal when the active one is archived', () => {
+      const { addGoal, archiveGoal } = useGoalStore.getState();
+      addGoal(khatm());
+      addGoal(juz30());
+      
+      archiveGoal('khatm');
+      expect(useGoalStore.getState().activeGoalId).toBe('juz-30');
+      
+      archiveGoal('juz-30');
+      expect(useGoalStore.getState().activeGoalId).toBeNull();
+      expect(useGoalStore.getState().getTodaysAssignment()).toBeNull();
+    });
+    
+    it("should combine today's assignments from every running goal", () => {
+      const { addGoal, archiveGoal } = useGoalStore.getState();
+      addGoal(khatm());
+      addGoal(juz30());
+      addGoal(buildGoal('baqarah', { target: 'specific-surah', targetValue: 2 }));
+      archiveGoal('baqarah');
+      
+      const todays = useGoalStore.getState().getTodaysAssignments();
+      
+      expect(todays.map(({ goalId }) => goalId)).toEqual(['khatm', 'juz-30']);
+      expect(todays[1].assignment).toBe(getRecord('juz-30').plan[0]);
+    });
+    
+    it('should track completion separately for each goal', () => {
+      const { addGoal, markDayAsComplete } = useGoalStore.getState();
+      addGoal(khatm());
+      addGoal(juz30());
+      
+      markDayAsComplete(startOfToday(), 'juz-30');
+      
+      const state = useGoalStore.getState();
+      expect(state.getCompletedCount('juz-30')).toBe(1);
+      expect(state.getCompletedCount('khatm')).toBe(0);
+      expect(getRecord('juz-30').currentStreak).toBe(1);
+      expect(getRecord('khatm').currentStreak).toBe(0);
+    });
+  });
+  
+  describe('catch-up reading', () => {
+    const todaysAssignments = () => useGoalStore.getState().getTodaysAssignments().map(
+      ({ assignment }) => assignment,
+    );
+    
+    it("should add spread-evenly catch-up reading beside today's own assignment", () => {
+      const { setGoal, rescheduleMissedDays } = useGoalStore.getState();
+      setGoal(buildGoal('juz-30', { startDate: daysFromToday(-2) }));
+      
+      const result = rescheduleMissedDays('spread-evenly');
+      
+      expect(result.strategy).toBe('spread-evenly');
+      expect(todaysAssignments().map(assignment => assignment.isCatchUpDay).sort()).toEqual([
+        false,
+        true,
+      ]);
+    });
+    
+    it('should complete only the assignment that was read', () => {
+      const { setGoal, rescheduleMissedDays, markAssignmentComplete } = useGoalStore.getState();
+      setGoal(buildGoal('juz-30', { startDate: daysFromToday(-2) }));
+      rescheduleMissedDays('spread-evenly');
+      const own = todaysAssignments().find(assignment => !assignment.isCatchUpDay)!;
+      
+      markAssignmentComplete(startOfToday(), own.fromAyah);
+      
+      const completed = todaysAssignments().map(assignment => [assignment.isCatchUpDay, assignment.completed]);
+      expect(completed).toEqual(expect.arrayContaining([[false, true], [true, false]]));
+      expect(useGoalStore.getState().getCompletedCount()).toBe(1);
+    });
+  });
+  
+  describe('reviseGoal', () => {
+    it('should record the previous values of the changed fields', () => {
+      const { setGoal, reviseGoal } = useGoalStore.getState();
+      setGoal(juz30());
+      
+      reviseGoal({ ...juz30(), dailyAmount: 2, rolloverLeftover: true });
+      
+      const [revision] = getRecord('juz-30').goal.revisions ?? [];
+      expect(revision.previous).toEqual({ dailyAmount: 1, rolloverLeftover: undefined });
+      expect(revision.replannedFrom).toBe(getRecord('juz-30').plan[0].fromAyah);
+      expect(getRecord('juz-30').goal.dailyAmount).toBe(2);
+    });
+    
+    it('should keep what was read and replan the rest', () => {
+      const { setGoal, reviseGoal, markDayAsComplete } = useGoalStore.getState();
+      setGoal(juz30());
+      markDayAsComplete(startOfToday());
+      const firstDay = getRecord('juz-30').plan[0];
+      const dayCount = getRecord('juz-30').plan.length;
+      
+      reviseGoal({ ...juz30(), dailyAmount: 2 });
+      
+      const { plan, goal } = getRecord('juz-30');
+      expect(plan[0]).toEqual(firstDay);
+      expect(plan.length).toBeLessThan(dayCount);
+      expect(goal.revisions?.[0].replannedFrom).toBe(plan[1].fromAyah);
+    });
+    
+    it('should not record a revision when nothing changed', () => {
+      const { setGoal, reviseGoal } = useGoalStore.getState();
+      setGoal(juz30());
+      
+      reviseGoal(juz30());
+      
+      expect(getRecord('juz-30').goal.revisions).toBeUndefined();
+    });
+    
+    it('should set a goal that does not exist yet', () => {
+      useGoalStore.getState().reviseGoal(juz30());
+      
+      expect(useGoalStore.getState().activeGoalId).toBe('juz-30');
+    });
+  });
+  
+  describe('addPausePeriod', () => {
+    it('should push unread assignments past the pause', () => {
+      const { setGoal, addPausePeriod } = useGoalStore.getState();
+      setGoal(juz30());
+      const firstDay = getRecord('juz-30').plan[0];
+      
+      addPausePeriod({ startDate: startOfToday(), endDate: daysFromToday(2) });
+      
+      const { plan, goal } = getRecord('juz-30');
+      expect(goal.pausePeriods).toHaveLength(1);
+      expect(plan[0].fromAyah).toBe(firstDay.fromAyah);
+      expect(plan[0].date).toEqual(daysFromToday(3));
+      expect(useGoalStore.getState().getTodaysAssignment()).toBeNull();
+    });
+    
+    it('should ignore unknown goals', () => {
+      const before = useGoalStore.getState().goals;
+      
+      useGoalStore.getState().addPausePeriod(
+        { startDate: startOfToday(), endDate: startOfToday() },
+        'unknown',
+      );
+      
+      expect(useGoalStore.getState().goals).toBe(before);
+    });
+  });
+  
+  describe('routines', () => {
+    const nightly: ReadingRoutine = {
+      id: 'nightly',
+      name: 'As-Sajdah and Al-Mulk nightly',
+      surahIds: [32, 67],
+      daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+      startDate: daysFromToday(-2),
+    };
+    
+    it("should list today's routine readings until the routine is archived", () => {
+      const { addRoutine, archiveRoutine } = useGoalStore.getState();
+      addRoutine(nightly);
+      
+      const [todays] = useGoalStore.getState().getTodaysRoutineAssignments();
+      expect(todays.routineId).toBe('nightly');
+      expect(todays.assignments).toHaveLength(2);
+      
+      archiveRoutine('nightly');
+      expect(useGoalStore.getState().getTodaysRoutineAssignments()).toEqual([]);
+    });
+    
+    it('should count a streak of consecutive routine days', () => {
+      const { addRoutine, markRoutineComplete, markRoutineIncomplete } = useGoalStore.getState();
+      addRoutine(nightly);
+      
+      markRoutineComplete('nightly', daysFromToday(-1));
+      markRoutineComplete('nightly', startOfToday());
+      
+      let record = useGoalStore.getState().routines.nightly;
+      expect(record.completedDays).toEqual([toDayKey(daysFromToday(-1)), toDayKey(startOfToday())]);
+      expect(record.currentStreak).toBe(2);
+      
+      markRoutineIncomplete('nightly', startOfToday());
+      
+      record = useGoalStore.getState().routines.nightly;
+      expect(record.completedDays).toEqual([toDayKey(daysFromToday(-1))]);
+      expect(record.currentStreak).toBe(1);
+    });
+    
+    it('should keep completed days when a routine is replaced', () => {
+      const { addRoutine, markRoutineComplete } = useGoalStore.getState();
+      addRoutine(nightly);
+      markRoutineComplete('nightly', startOfToday());
+      
+      addRoutine({ ...nightly, surahIds: [67] });
+      
+      const record = useGoalStore.getState().routines.nightly;
+      expect(record.routine.surahIds).toEqual([67]);
+      expect(record.completedDays).toEqual([toDayKey(startOfToday())]);
+    });
+  });
+  
+  describe('memorization reviews', () => {
+    const hifz = (overrides: Partial<UserGoal> = {}) =>
+      buildGoal('hifz', { mode: 'memorization', unit: 'ayahs', dailyAmount: 5, ...overrides });
+    
+    it('should schedule a review of each unit memorized on a completed day', () => {
+      const { setGoal, markDayAsComplete } = useGoalStore.getState();
+      setGoal(hifz());
+      
+      markDayAsComplete(startOfToday());
+      
+      const { reviewItems } = getRecord('hifz');
+      expect(reviewItems).toHaveLength(5);
+      expect(reviewItems?.[0].dueDate).toEqual(daysFromToday(1));
+      expect(useGoalStore.getState().getDueReviews()).toEqual([]);
+    });
+    
+    it('should schedule reviews when a bookmark reaches the end of the day', () => {
+      const { setGoal, setReadUpTo } = useGoalStore.getState();
+      setGoal(hifz());
+      const today = getRecord('hifz').plan[0];
+      
+      setReadUpTo(startOfToday(), offsetRef(today.fromAyah, 2) as QuranRef);
+      expect(getRecord('hifz').reviewItems).toBeUndefined();
+      
+      setReadUpTo(startOfToday(), today.toAyah);
+      expect(getRecord('hifz').plan[0].completed).toBe(true);
+      expect(getRecord('hifz').reviewItems?.map(item => item.fromAyah)).toEqual(
+        getRefsInRange(today.fromAyah, today.toAyah),
+      );
+    });
+    
+    it('should schedule reviews of everything memorized when reading ahead', () => {
+      const { setGoal, recordFurthestAyah } = useGoalStore.getState();
+      setGoal(hifz());
+      const today = getRecord('hifz').plan[0];
+      
+      recordFurthestAyah(offsetRef(today.toAyah, 3) as QuranRef);
+      
+      expect(getRecord('hifz').reviewItems).toHaveLength(8);
+    });
+    
+    it('should schedule reviews of the part of a past day that was rolled over', () => {
+      const { setGoal, setReadUpTo, rollOverLeftovers } = useGoalStore.getState();
+      setGoal(hifz({ startDate: daysFromToday(-1), rolloverLeftover: true }));
+      const yesterday = getRecord('hifz').plan[0];
+      
+      setReadUpTo(daysFromToday(-1), offsetRef(yesterday.fromAyah, 1) as QuranRef);
+      rollOverLeftovers();
+      
+      expect(getRecord('hifz').reviewItems?.map(item => item.fromAyah)).toEqual(
+        getRefsInRange(yesterday.fromAyah, offsetRef(yesterday.fromAyah, 1) as QuranRef),
+      );
+    });
+    
+    it('should drop the reviews of a day marked as not done', () => {
+      const { setGoal, markDayAsComplete, markDayAsIncomplete } = useGoalStore.getState();
+      setGoal(hifz());
+      markDayAsComplete(startOfToday());
+      
+      markDayAsIncomplete(startOfToday());
+      
+      expect(getRecord('hifz').reviewItems).toEqual([]);
+    });
+    
+    it('should reschedule a graded review', () => {
+      const { setGoal, markDayAsComplete, gradeReview } = useGoalStore.getState();
+      setGoal(hifz());
+      markDayAsComplete(startOfToday());
+      const [first, second] = getRecord('hifz').reviewItems ?? [];
+      
+      gradeReview(first.fromAyah, 5);
+      gradeReview(first.fromAyah, 4);
+      
+      const [graded, untouched] = getRecord('hifz').reviewItems ?? [];
+      expect(graded.repetitions).toBe(2);
+      expect(graded.interval).toBe(6);
+      expect(graded.dueDate).toEqual(daysFromToday(6));
+      expect(untouched).toBe(second);
+    });
+    
+    it('should not schedule reviews for reading goals', () => {
+      const { setGoal, markDayAsComplete } = useGoalStore.getState();
+      setGoal(juz30());
+      
+      markDayAsComplete(startOfToday());
+      
+      expect(getRecord('juz-30').reviewItems).toBeUndefined();
+    });
+  });
+  
+  describe('mushaf layout', () => {
+    afterEach(() => {
+      useSettingsStore.getState().updateSettings({ mushafStyle: 'madani' });
+    });
+    
+    it('should renumber the pages of stored plans when the mushaf changes', () => {
+      useGoalStore.getState().setGoal(khatm());
+      const madaniPlan = getRecord('khatm').plan;
+      
+      useSettingsStore.getState().updateSettings({ mushafStyle: 'warsh' });
+      
+      const { plan } = getRecord('khatm');
+      const { getPageForAyahId } = MUSHAF_LAYOUTS.warsh;
+      expect(plan.map(a => [a.fromAyah, a.toAyah])).toEqual(madaniPlan.map(a => [a.fromAyah, a.toAyah]));
+      expect(plan.map(a => [a.fromPage, a.toPage])).toEqual(
+        plan.map(a => [getPageForAyahId(a.fromAyah), getPageForAyahId(a.toAyah)]),
+      );
+      expect(plan).not.toEqual(madaniPlan);
+    });
+    
+    it('should restore the original page numbers when the mushaf changes back', () => {
+      useGoalStore.getState().setGoal(khatm());
+      const madaniPlan = getRecord('khatm').plan;
+      
+      useSettingsStore.getState().updateSettings({ mushafStyle: 'warsh' });
+      useSettingsStore.getState().updateSettings({ mushafStyle: 'madani' });
+      
+      expect(getRecord('khatm').plan).toEqual(madaniPlan);
+    });
+  });
+});
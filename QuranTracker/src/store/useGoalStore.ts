@@ -2,58 +2,172 @@
  * Global State Management using Zustand
  * 
  * This is the single source of truth for all goal-related data in the app.
+ * State is persisted to AsyncStorage through the storage service.
  */
 
 import { create } from 'zustand';
-import { UserGoal, DailyAssignment } from '@/types';
-import { generatePlan } from '@/lib/goalCalculator';
+import { persist } from 'zustand/middleware';
+import {
+  UserGoal,
+  DailyAssignment,
+  PersistedGoalState,
+  CatchUpStrategy,
+  CatchUpResult,
+  GoalRecord,
+  GoalAssignment,
+  GoalRevision,
+  PausePeriod,
+  RebalanceMode,
+  ReadingRoutine,
+  RoutineRecord,
+  RoutineAssignment,
+  RecallGrade,
+  ReviewItem,
+  QuranRef,
+} from '@/types';
+import {
+  generatePlan,
+  recalculatePlanWithCatchUp,
+  getAssignmentProgress,
+  rollOverLeftovers,
+  rebalanceAfterReadingAhead,
+  getFirstUnreadAyah,
+  replanFromFirstUnread,
+  isPausedDay,
+  shiftPlanAroundPauses,
+  renumberPlanPages,
+  splitIntoMemorizationUnits,
+} from '@/lib/goalCalculator';
+import { createReviewItem, gradeReview, getDueReviews } from '@/lib/spacedRepetition';
+import { applyHijriDates } from '@/lib/hijri';
+import {
+  getRoutineAssignments,
+  calculateRoutineStreaks,
+  toDayKey,
+} from '@/lib/routines';
+import { useSettingsStore } from '@/store/useSettingsStore';
+import {
+  GOAL_STORAGE_KEY,
+  GOAL_SCHEMA_VERSION,
+  goalStorage,
+  migrateGoalState,
+} from '@/services/storageService';
 
 interface GoalState {
-  /** Current active goal */
-  currentGoal: UserGoal | null;
+  /** All goals with their plans and progress, keyed by `UserGoal.id` */
+  goals: Record<string, GoalRecord>;
   
-  /** Generated plan with daily assignments */
-  plan: DailyAssignment[];
+  /** Recurring routines with their completions, keyed by `ReadingRoutine.id` */
+  routines: Record<string, RoutineRecord>;
+  
+  /** ID of the goal currently shown to the user */
+  activeGoalId: string | null;
   
   /** Timestamp of last update */
   lastUpdated: Date | null;
-  
-  /** Current streak (consecutive days completed) */
-  currentStreak: number;
-  
-  /** Best streak achieved */
-  bestStreak: number;
-  
-  /** Total days completed */
-  totalDaysCompleted: number;
 }
 
 interface GoalActions {
-  /** Set a new goal and generate its plan */
+  /** Set a goal (adding or replacing it), generate its plan and make it active */
   setGoal: (goal: UserGoal) => void;
   
-  /** Mark a specific day as complete */
-  markDayAsComplete: (date: Date) => void;
+  /**
+   * Change a running goal, keeping what was read and replanning the rest from
+   * the first unread ayah; the change is recorded in the goal's revisions
+   */
+  reviseGoal: (goal: UserGoal) => void;
+  
+  /** Pause a goal for a date range, pushing its unread assignments later (defaults to the active goal) */
+  addPausePeriod: (period: PausePeriod, goalId?: string) => void;
+  
+  /** Add a goal alongside the existing ones and generate its plan */
+  addGoal: (goal: UserGoal) => void;
+  
+  /** Archive a goal so it is no longer scheduled */
+  archiveGoal: (goalId: string) => void;
+  
+  /** Make another (non-archived) goal the active one */
+  switchGoal: (goalId: string) => void;
+  
+  /** Get the active goal's record */
+  getActiveGoal: () => GoalRecord | null;
   
-  /** Mark a specific day as incomplete */
-  markDayAsIncomplete: (date: Date) => void;
+  /** Get all goals that are not archived */
+  getActiveGoals: () => GoalRecord[];
   
-  /** Get today's assignment */
+  /** Mark a specific day as complete (defaults to the active goal) */
+  markDayAsComplete: (date: Date, goalId?: string) => void;
+  
+  /**
+   * Mark one of a day's assignments, identified by its first ayah, as complete
+   * (defaults to the active goal); a day can hold catch-up reading besides its own
+   */
+  markAssignmentComplete: (date: Date, fromAyah: QuranRef, goalId?: string) => void;
+  
+  /** Mark a specific day as incomplete (defaults to the active goal) */
+  markDayAsIncomplete: (date: Date, goalId?: string) => void;
+  
+  /** Bookmark the last ayah read in a day's assignment (defaults to the active goal) */
+  setReadUpTo: (date: Date, ayahRef: QuranRef, goalId?: string) => void;
+  
+  /**
+   * Record the furthest ayah actually read today and, if it is past today's
+   * assignment, rebuild the remaining plan from there (defaults to the active goal)
+   */
+  recordFurthestAyah: (ayahRef: QuranRef, mode?: RebalanceMode, goalId?: string) => void;
+  
+  /** Roll unread ayahs of past, partially read days forward for goals that opt in */
+  rollOverLeftovers: () => void;
+  
+  /**
+   * Renumber every plan's pages in the chosen mushaf layout; assignments keep
+   * their ayah ranges until their goal is revised
+   */
+  applyMushafLayout: () => void;
+  
+  /** Get the first of today's assignments for the active goal, as stored in its plan (see getDueReviews) */
   getTodaysAssignment: () => DailyAssignment | null;
   
+  /** Get today's assignments from all non-archived goals, with any reviews due */
+  getTodaysAssignments: () => GoalAssignment[];
+  
+  /** Get the memorized portions due for review today (defaults to the active goal) */
+  getDueReviews: (goalId?: string) => ReviewItem[];
+  
+  /** Grade the recall of a reviewed portion and reschedule it (defaults to the active goal) */
+  gradeReview: (fromAyah: QuranRef, grade: RecallGrade, goalId?: string) => void;
+  
+  /** Add (or replace) a recurring routine */
+  addRoutine: (routine: ReadingRoutine) => void;
+  
+  /** Archive a routine so it is no longer scheduled */
+  archiveRoutine: (routineId: string) => void;
+  
+  /** Mark a routine as read on a day */
+  markRoutineComplete: (routineId: string, date: Date) => void;
+  
+  /** Mark a routine as not read on a day */
+  markRoutineIncomplete: (routineId: string, date: Date) => void;
+  
+  /** Get today's readings from all non-archived routines */
+  getTodaysRoutineAssignments: () => RoutineAssignment[];
+  
+  /** Reschedule past, uncompleted assignments as catch-up reading */
+  rescheduleMissedDays: (strategy?: CatchUpStrategy, goalId?: string) => CatchUpResult;
+  
   /** Clear all goal data */
   clearPlan: () => void;
   
-  /** Get progress percentage (0-100) */
-  getProgressPercentage: () => number;
+  /** Get progress percentage (0-100), counting partial days in proportion (defaults to the active goal) */
+  getProgressPercentage: (goalId?: string) => number;
   
-  /** Get total completed assignments */
-  getCompletedCount: () => number;
+  /** Get total completed assignments (defaults to the active goal) */
+  getCompletedCount: (goalId?: string) => number;
   
-  /** Get total assignments in plan */
-  getTotalCount: () => number;
+  /** Get total assignments in plan (defaults to the active goal) */
+  getTotalCount: (goalId?: string) => number;
   
-  /** Update streaks based on completion status */
+  /** Update streaks of every goal and routine based on completion status */
   updateStreaks: () => void;
 }
 
@@ -72,8 +186,11 @@ const isSameDay = (date1: Date, date2: Date): boolean => {
 
 /**
  * Helper function to calculate streaks
+ * 
+ * Partially read days count by the fraction read; only unread days break a streak.
+ * Paused days are skipped, so a pause neither breaks nor extends a streak.
  */
-const calculateStreaks = (plan: DailyAssignment[]): { current: number; best: number } => {
+const calculateStreaks = (goal: UserGoal, plan: DailyAssignment[]): { current: number; best: number } => {
   const sortedAssignments = [...plan].sort(
     (a, b) => a.date.getTime() - b.date.getTime()
   );
@@ -81,11 +198,25 @@ const calculateStreaks = (plan: DailyAssignment[]): { current: number; best: num
   let currentStreak = 0;
   let bestStreak = 0;
   let tempStreak = 0;
+  
+  // Measure from the end of any pause leading up to today
   const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  while (isPausedDay(goal, yesterday)) {
+    today.setDate(today.getDate() - 1);
+    yesterday.setDate(yesterday.getDate() - 1);
+  }
   
   for (const assignment of sortedAssignments) {
-    if (assignment.completed) {
-      tempStreak++;
+    const progress = getAssignmentProgress(assignment);
+    
+    if (progress === 0 && isPausedDay(goal, assignment.date)) {
+      continue;
+    }
+    
+    if (progress > 0) {
+      tempStreak += progress;
       bestStreak = Math.max(bestStreak, tempStreak);
       
       // If this is today or yesterday, it counts towards current streak
@@ -103,122 +234,646 @@ const calculateStreaks = (plan: DailyAssignment[]): { current: number; best: num
   return { current: currentStreak, best: bestStreak };
 };
 
-export const useGoalStore = create<GoalStore>((set, get) => ({
-  // Initial state
-  currentGoal: null,
-  plan: [],
-  lastUpdated: null,
-  currentStreak: 0,
-  bestStreak: 0,
-  totalDaysCompleted: 0,
-  
-  // Actions
-  setGoal: (goal: UserGoal) => {
-    const newPlan = generatePlan(goal);
-    const streaks = calculateStreaks(newPlan);
-    const completed = newPlan.filter(a => a.completed).length;
-    
-    set({
-      currentGoal: goal,
-      plan: newPlan,
-      lastUpdated: new Date(),
-      currentStreak: streaks.current,
-      bestStreak: streaks.best,
-      totalDaysCompleted: completed,
-    });
-  },
-  
-  markDayAsComplete: (date: Date) => {
-    const { plan } = get();
-    const updatedPlan = plan.map(assignment => {
-      if (isSameDay(assignment.date, date)) {
-        return { ...assignment, completed: true };
-      }
-      return assignment;
-    });
-    
-    const streaks = calculateStreaks(updatedPlan);
-    const completed = updatedPlan.filter(a => a.completed).length;
+/**
+ * Helper function to add review items for the units of a memorization goal's
+ * completed assignments that are not yet in its review schedule
+ * 
+ * However a day gets completed (marked done, bookmarked to its last ayah,
+ * read past or rolled over), its units start their reviews from that day.
+ */
+const withMemorizedUnits = (record: GoalRecord): GoalRecord => {
+  if (record.goal.mode !== 'memorization') return record;
+  
+  const existing = record.reviewItems ?? [];
+  const scheduled = new Set(existing.map(item => item.fromAyah));
+  
+  const added = record.plan
+    .filter(assignment => assignment.completed)
+    .flatMap(assignment =>
+      splitIntoMemorizationUnits(record.goal.unit, assignment.fromAyah, assignment.toAyah)
+        .filter(unit => !scheduled.has(unit.fromAyah))
+        .map(unit => createReviewItem(unit, assignment.date)),
+    );
+  
+  return added.length > 0 ? { ...record, reviewItems: [...existing, ...added] } : record;
+};
+
+/**
+ * Helper function to recompute a goal's streaks, completion count and
+ * (for memorization goals) review schedule from its plan
+ */
+const withProgress = (record: GoalRecord): GoalRecord => {
+  const streaks = calculateStreaks(record.goal, record.plan);
+  
+  return withMemorizedUnits({
+    ...record,
+    currentStreak: streaks.current,
+    bestStreak: streaks.best,
+    totalDaysCompleted: record.plan.filter(a => a.completed).length,
+  });
+};
+
+/**
+ * Helper function to derive a goal's Gregorian dates from its Hijri ones,
+ * using the user's Hijri day offset
+ */
+const resolveHijriDates = (goal: UserGoal): UserGoal => {
+  return applyHijriDates(goal, useSettingsStore.getState().hijriOffset);
+};
+
+/**
+ * Helper function to build a fresh record for a goal
+ */
+const createRecord = (goal: UserGoal): GoalRecord => {
+  const resolvedGoal = resolveHijriDates(goal);
+  
+  return withProgress({
+    goal: resolvedGoal,
+    plan: generatePlan(resolvedGoal),
+    currentStreak: 0,
+    bestStreak: 0,
+    totalDaysCompleted: 0,
+    archived: false,
+  });
+};
+
+/**
+ * Helper function to recompute a routine's streaks from its completed days
+ */
+const withRoutineStreaks = (record: RoutineRecord): RoutineRecord => {
+  const streaks = calculateRoutineStreaks(record.routine, record.completedDays);
+  
+  return {
+    ...record,
+    currentStreak: streaks.current,
+    bestStreak: streaks.best,
+  };
+};
+
+/**
+ * Helper function to set whether a routine was read on a day
+ */
+const setRoutineDayCompleted = (
+  record: RoutineRecord,
+  date: Date,
+  completed: boolean,
+): RoutineRecord => {
+  const dayKey = toDayKey(date);
+  const otherDays = record.completedDays.filter(day => day !== dayKey);
+  
+  return withRoutineStreaks({
+    ...record,
+    completedDays: completed ? [...otherDays, dayKey].sort() : otherDays,
+  });
+};
+
+/**
+ * Helper function to collect the previous values of the fields a revision changes
+ */
+const getChangedFields = (previous: UserGoal, next: UserGoal): GoalRevision['previous'] => {
+  const changed: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  
+  for (const key of keys) {
+    if (key === 'id' || key === 'revisions') continue;
     
-    set({
-      plan: updatedPlan,
-      lastUpdated: new Date(),
-      currentStreak: streaks.current,
-      bestStreak: streaks.best,
-      totalDaysCompleted: completed,
-    });
-  },
-  
-  markDayAsIncomplete: (date: Date) => {
-    const { plan } = get();
-    const updatedPlan = plan.map(assignment => {
-      if (isSameDay(assignment.date, date)) {
-        return { ...assignment, completed: false };
-      }
+    const before = previous[key as keyof UserGoal];
+    const after = next[key as keyof UserGoal];
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changed[key] = before;
+    }
+  }
+  
+  return changed as GoalRevision['previous'];
+};
+
+/**
+ * Helper function to set the completion flag for a day in a goal's plan, or
+ * only for the day's assignment starting at `fromAyah` when one is given
+ */
+const setDayCompleted = (
+  record: GoalRecord,
+  date: Date,
+  completed: boolean,
+  fromAyah?: QuranRef,
+): GoalRecord => {
+  const plan = record.plan.map(assignment => {
+    if (
+      isSameDay(assignment.date, date) &&
+      (fromAyah === undefined || assignment.fromAyah === fromAyah)
+    ) {
+      return { ...assignment, completed, readUpTo: undefined };
+    }
+    return assignment;
+  });
+  
+  return withProgress({ ...record, plan });
+};
+
+/**
+ * Helper function to remove the review items for the units memorized on a day
+ */
+const removeDayReviews = (record: GoalRecord, date: Date): GoalRecord => {
+  if (record.goal.mode !== 'memorization') return record;
+  
+  const unitStarts = new Set(
+    record.plan
+      .filter(assignment => isSameDay(assignment.date, date))
+      .flatMap(assignment =>
+        splitIntoMemorizationUnits(record.goal.unit, assignment.fromAyah, assignment.toAyah),
+      )
+      .map(unit => unit.fromAyah),
+  );
+  
+  return {
+    ...record,
+    reviewItems: (record.reviewItems ?? []).filter(item => !unitStarts.has(item.fromAyah)),
+  };
+};
+
+/**
+ * Helper function to attach the reviews due today to a memorization goal's assignment
+ */
+const withDueReviews = (record: GoalRecord, assignment: DailyAssignment): DailyAssignment => {
+  if (record.goal.mode !== 'memorization') return assignment;
+  
+  return {
+    ...assignment,
+    reviews: getDueReviews(record.reviewItems ?? []).map(({ fromAyah, toAyah }) => ({
+      fromAyah,
+      toAyah,
+    })),
+  };
+};
+
+/**
+ * Helper function to bookmark the last ayah read in a day's assignment
+ * 
+ * Bookmarks outside the assignment's range are ignored; reaching its
+ * last ayah completes the assignment.
+ */
+const setDayReadUpTo = (
+  record: GoalRecord,
+  date: Date,
+  ayahRef: QuranRef,
+): GoalRecord => {
+  const plan = record.plan.map(assignment => {
+    if (
+      !isSameDay(assignment.date, date) ||
+      ayahRef < assignment.fromAyah ||
+      ayahRef > assignment.toAyah
+    ) {
       return assignment;
-    });
-    
-    const streaks = calculateStreaks(updatedPlan);
-    const completed = updatedPlan.filter(a => a.completed).length;
-    
-    set({
-      plan: updatedPlan,
-      lastUpdated: new Date(),
-      currentStreak: streaks.current,
-      bestStreak: streaks.best,
-      totalDaysCompleted: completed,
-    });
-  },
-  
-  getTodaysAssignment: () => {
-    const { plan } = get();
-    const today = new Date();
-    
-    const todaysAssignment = plan.find(assignment =>
-      isSameDay(assignment.date, today)
-    );
+    }
     
-    return todaysAssignment || null;
-  },
+    return ayahRef === assignment.toAyah
+      ? { ...assignment, completed: true, readUpTo: undefined }
+      : { ...assignment, completed: false, readUpTo: ayahRef };
+  });
   
-  clearPlan: () => {
-    set({
-      currentGoal: null,
-      plan: [],
+  return withProgress({ ...record, plan });
+};
+
+export const useGoalStore = create<GoalStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      goals: {},
+      routines: {},
+      activeGoalId: null,
       lastUpdated: null,
-      currentStreak: 0,
-      bestStreak: 0,
-      totalDaysCompleted: 0,
-    });
-  },
-  
-  getProgressPercentage: () => {
-    const { plan } = get();
-    if (plan.length === 0) return 0;
-    
-    const completed = plan.filter(a => a.completed).length;
-    return Math.round((completed / plan.length) * 100);
-  },
-  
-  getCompletedCount: () => {
-    const { plan } = get();
-    return plan.filter(a => a.completed).length;
-  },
-  
-  getTotalCount: () => {
-    const { plan } = get();
-    return plan.length;
-  },
-  
-  updateStreaks: () => {
-    const { plan } = get();
-    const streaks = calculateStreaks(plan);
-    const completed = plan.filter(a => a.completed).length;
-    
-    set({
-      currentStreak: streaks.current,
-      bestStreak: streaks.best,
-      totalDaysCompleted: completed,
-    });
-  },
-}));
+      
+      // Actions
+      setGoal: (goal: UserGoal) => {
+        const { goals } = get();
+        
+        set({
+          goals: { ...goals, [goal.id]: createRecord(goal) },
+          activeGoalId: goal.id,
+          lastUpdated: new Date(),
+        });
+      },
+      
+      reviseGoal: (goal: UserGoal) => {
+        const { goals, setGoal } = get();
+        const record = goals[goal.id];
+        
+        if (!record) {
+          setGoal(goal);
+          return;
+        }
+        
+        const resolvedGoal = resolveHijriDates(goal);
+        const previous = getChangedFields(record.goal, resolvedGoal);
+        if (Object.keys(previous).length === 0) return;
+        
+        const revision: GoalRevision = {
+          revisedAt: new Date(),
+          previous,
+          replannedFrom: getFirstUnreadAyah(record.plan),
+        };
+        const revisedGoal: UserGoal = {
+          ...resolvedGoal,
+          revisions: [...(record.goal.revisions ?? []), revision],
+        };
+        
+        set({
+          goals: {
+            ...goals,
+            [goal.id]: withProgress({
+              ...record,
+              goal: revisedGoal,
+              plan: replanFromFirstUnread(revisedGoal, record.plan),
+            }),
+          },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      addPausePeriod: (period: PausePeriod, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record) return;
+        
+        const goal: UserGoal = {
+          ...record.goal,
+          pausePeriods: [...(record.goal.pausePeriods ?? []), period],
+        };
+        
+        set({
+          goals: {
+            ...goals,
+            [goal.id]: withProgress({
+              ...record,
+              goal,
+              plan: shiftPlanAroundPauses(goal, record.plan),
+            }),
+          },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      addGoal: (goal: UserGoal) => {
+        const { goals, activeGoalId } = get();
+        
+        set({
+          goals: { ...goals, [goal.id]: createRecord(goal) },
+          activeGoalId: activeGoalId ?? goal.id,
+          lastUpdated: new Date(),
+        });
+      },
+      
+      archiveGoal: (goalId: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId];
+        
+        if (!record) return;
+        
+        const updatedGoals = { ...goals, [goalId]: { ...record, archived: true } };
+        
+        // Fall back to another running goal if the active one is archived
+        const nextActiveId =
+          activeGoalId === goalId
+            ? Object.values(updatedGoals).find(r => !r.archived)?.goal.id ?? null
+            : activeGoalId;
+        
+        set({
+          goals: updatedGoals,
+          activeGoalId: nextActiveId,
+          lastUpdated: new Date(),
+        });
+      },
+      
+      switchGoal: (goalId: string) => {
+        const record = get().goals[goalId];
+        
+        if (!record || record.archived) return;
+        
+        set({ activeGoalId: goalId });
+      },
+      
+      getActiveGoal: () => {
+        const { goals, activeGoalId } = get();
+        return activeGoalId ? goals[activeGoalId] ?? null : null;
+      },
+      
+      getActiveGoals: () => {
+        const { goals } = get();
+        return Object.values(goals).filter(record => !record.archived);
+      },
+      
+      markDayAsComplete: (date: Date, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record) return;
+        
+        set({
+          goals: {
+            ...goals,
+            [record.goal.id]: setDayCompleted(record, date, true),
+          },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      markAssignmentComplete: (date: Date, fromAyah: QuranRef, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record) return;
+        
+        set({
+          goals: {
+            ...goals,
+            [record.goal.id]: setDayCompleted(record, date, true, fromAyah),
+          },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      markDayAsIncomplete: (date: Date, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record) return;
+        
+        set({
+          goals: {
+            ...goals,
+            [record.goal.id]: removeDayReviews(setDayCompleted(record, date, false), date),
+          },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      setReadUpTo: (date: Date, ayahRef: QuranRef, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record) return;
+        
+        set({
+          goals: { ...goals, [record.goal.id]: setDayReadUpTo(record, date, ayahRef) },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      recordFurthestAyah: (ayahRef: QuranRef, mode?: RebalanceMode, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record) return;
+        
+        const plan = rebalanceAfterReadingAhead(record.goal, record.plan, ayahRef, mode);
+        
+        // Not past today's assignment, so this is just a bookmark
+        if (plan === record.plan) {
+          get().setReadUpTo(new Date(), ayahRef, record.goal.id);
+          return;
+        }
+        
+        set({
+          goals: { ...goals, [record.goal.id]: withProgress({ ...record, plan }) },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      rollOverLeftovers: () => {
+        const { goals } = get();
+        const updatedGoals: Record<string, GoalRecord> = {};
+        
+        for (const [goalId, record] of Object.entries(goals)) {
+          updatedGoals[goalId] = record.goal.rolloverLeftover && !record.archived
+            ? withProgress({ ...record, plan: rollOverLeftovers(record.plan) })
+            : record;
+        }
+        
+        set({ goals: updatedGoals });
+      },
+      
+      applyMushafLayout: () => {
+        const { goals } = get();
+        const updatedGoals: Record<string, GoalRecord> = {};
+        
+        for (const [goalId, record] of Object.entries(goals)) {
+          updatedGoals[goalId] = { ...record, plan: renumberPlanPages(record.plan) };
+        }
+        
+        set({ goals: updatedGoals });
+      },
+      
+      getTodaysAssignment: () => {
+        const record = get().getActiveGoal();
+        const today = new Date();
+        
+        return record?.plan.find(assignment => isSameDay(assignment.date, today)) ?? null;
+      },
+      
+      getTodaysAssignments: () => {
+        const today = new Date();
+        
+        return get()
+          .getActiveGoals()
+          .flatMap(record =>
+            record.plan
+              .filter(assignment => isSameDay(assignment.date, today))
+              .map(assignment => ({
+                goalId: record.goal.id,
+                assignment: withDueReviews(record, assignment),
+              })),
+          );
+      },
+      
+      getDueReviews: (goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        return record ? getDueReviews(record.reviewItems ?? []) : [];
+      },
+      
+      gradeReview: (fromAyah: QuranRef, grade: RecallGrade, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record?.reviewItems) return;
+        
+        const reviewItems = record.reviewItems.map(item =>
+          item.fromAyah === fromAyah ? gradeReview(item, grade) : item,
+        );
+        
+        set({
+          goals: { ...goals, [record.goal.id]: { ...record, reviewItems } },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      addRoutine: (routine: ReadingRoutine) => {
+        const { routines } = get();
+        const existing = routines[routine.id];
+        
+        set({
+          routines: {
+            ...routines,
+            [routine.id]: withRoutineStreaks({
+              routine,
+              completedDays: existing?.completedDays ?? [],
+              currentStreak: 0,
+              bestStreak: 0,
+              archived: false,
+            }),
+          },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      archiveRoutine: (routineId: string) => {
+        const { routines } = get();
+        const record = routines[routineId];
+        
+        if (!record) return;
+        
+        set({
+          routines: { ...routines, [routineId]: { ...record, archived: true } },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      markRoutineComplete: (routineId: string, date: Date) => {
+        const { routines } = get();
+        const record = routines[routineId];
+        
+        if (!record) return;
+        
+        set({
+          routines: { ...routines, [routineId]: setRoutineDayCompleted(record, date, true) },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      markRoutineIncomplete: (routineId: string, date: Date) => {
+        const { routines } = get();
+        const record = routines[routineId];
+        
+        if (!record) return;
+        
+        set({
+          routines: { ...routines, [routineId]: setRoutineDayCompleted(record, date, false) },
+          lastUpdated: new Date(),
+        });
+      },
+      
+      getTodaysRoutineAssignments: () => {
+        const today = new Date();
+        
+        return Object.values(get().routines)
+          .filter(record => !record.archived)
+          .map(record => ({
+            routineId: record.routine.id,
+            assignments: getRoutineAssignments(record.routine, today, record.completedDays),
+          }))
+          .filter(routineAssignment => routineAssignment.assignments.length > 0);
+      },
+      
+      rescheduleMissedDays: (strategy?: CatchUpStrategy, goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        
+        if (!record) {
+          return { plan: [], strategy: null, meetsDeadline: false };
+        }
+        
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const missed = record.plan.filter(a => !a.completed && a.date < today);
+        
+        const result = recalculatePlanWithCatchUp(record.goal, record.plan, missed, strategy);
+        
+        if (result.strategy) {
+          set({
+            goals: {
+              ...goals,
+              [record.goal.id]: withProgress({ ...record, plan: result.plan }),
+            },
+            lastUpdated: new Date(),
+          });
+        }
+        
+        return result;
+      },
+      
+      clearPlan: () => {
+        set({
+          goals: {},
+          routines: {},
+          activeGoalId: null,
+          lastUpdated: null,
+        });
+      },
+      
+      getProgressPercentage: (goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        if (!record || record.plan.length === 0) return 0;
+        
+        const read = record.plan.reduce(
+          (sum, assignment) => sum + getAssignmentProgress(assignment),
+          0,
+        );
+        return Math.round((read / record.plan.length) * 100);
+      },
+      
+      getCompletedCount: (goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        return record ? record.plan.filter(a => a.completed).length : 0;
+      },
+      
+      getTotalCount: (goalId?: string) => {
+        const { goals, activeGoalId } = get();
+        const record = goals[goalId ?? activeGoalId ?? ''];
+        return record ? record.plan.length : 0;
+      },
+      
+      updateStreaks: () => {
+        const { goals, routines } = get();
+        const updatedGoals: Record<string, GoalRecord> = {};
+        
+        for (const [goalId, record] of Object.entries(goals)) {
+          updatedGoals[goalId] = withProgress(record);
+        }
+        
+        const updatedRoutines: Record<string, RoutineRecord> = {};
+        for (const [routineId, record] of Object.entries(routines)) {
+          updatedRoutines[routineId] = withRoutineStreaks(record);
+        }
+        
+        set({ goals: updatedGoals, routines: updatedRoutines });
+      },
+    }),
+    {
+      name: GOAL_STORAGE_KEY,
+      version: GOAL_SCHEMA_VERSION,
+      storage: goalStorage,
+      migrate: migrateGoalState,
+      partialize: (state): PersistedGoalState => ({
+        goals: state.goals,
+        routines: state.routines,
+        activeGoalId: state.activeGoalId,
+        lastUpdated: state.lastUpdated,
+      }),
+      // Leftovers and streaks depend on today's date, so refresh them after loading
+      onRehydrateStorage: () => state => {
+        state?.applyMushafLayout();
+        state?.rollOverLeftovers();
+        state?.updateStreaks();
+      },
+    },
+  ),
+);
+
+useSettingsStore.subscribe((settings, previous) => {
+  if (settings.mushafStyle !== previous.mushafStyle) {
+    useGoalStore.getState().applyMushafLayout();
+  }
+});
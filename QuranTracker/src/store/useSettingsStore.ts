@@ -0,0 +1,73 @@
+/**
+ * App Settings State using Zustand
+ * 
+ * Holds the user's preferences, persisted to AsyncStorage through the storage service.
+ * The chosen mushaf's page layout is applied to the Quran data service whenever it changes.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { AppSettings } from '@/types';
+import { SETTINGS_STORAGE_KEY, settingsStorage } from '@/services/storageService';
+import { setMushafLayout } from '@/services/quranData';
+import { getMushafLayout } from '@/services/mushafLayouts';
+
+interface SettingsActions {
+  /** Change one or more settings */
+  updateSettings: (changes: Partial<AppSettings>) => void;
+  
+  /** Restore the default settings */
+  resetSettings: () => void;
+}
+
+type SettingsStore = AppSettings & SettingsActions;
+
+/** Settings used until the user changes them */
+export const DEFAULT_SETTINGS: AppSettings = {
+  notificationsEnabled: false,
+  mushafStyle: 'madani',
+  theme: 'system',
+  language: 'en',
+  translationLanguage: 'en',
+  showTranslation: false,
+  showHijriDates: true,
+  hijriOffset: 0,
+};
+
+export const useSettingsStore = create<SettingsStore>()(
+  persist(
+    set => ({
+      ...DEFAULT_SETTINGS,
+      
+      updateSettings: (changes: Partial<AppSettings>) => {
+        set(changes);
+      },
+      
+      resetSettings: () => {
+        set(DEFAULT_SETTINGS);
+      },
+    }),
+    {
+      name: SETTINGS_STORAGE_KEY,
+      storage: settingsStorage,
+      partialize: (state): AppSettings => ({
+        notificationsEnabled: state.notificationsEnabled,
+        reminderTime: state.reminderTime,
+        mushafStyle: state.mushafStyle,
+        theme: state.theme,
+        language: state.language,
+        translationLanguage: state.translationLanguage,
+        showTranslation: state.showTranslation,
+        showHijriDates: state.showHijriDates,
+        hijriOffset: state.hijriOffset,
+      }),
+      // Settings saved before layouts were selectable may name an unknown mushaf
+      merge: (persisted, current) => {
+        const settings = { ...current, ...(persisted as Partial<AppSettings>) };
+        return { ...settings, mushafStyle: getMushafLayout(settings.mushafStyle).id };
+      },
+    },
+  ),
+);
+
+useSettingsStore.subscribe(state => setMushafLayout(state.mushafStyle));
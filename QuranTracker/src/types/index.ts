@@ -5,6 +5,39 @@
  * All interfaces are immutable and should be treated as read-only.
  */
 
+/**
+ * Validated position of an ayah: its absolute index in the mushaf (1 = 1:1, 6236 = 114:6)
+ * 
+ * Create references with the helpers in `@/lib/quranRef`. They are stored
+ * as "surah:ayah" strings.
+ */
+export type QuranRef = number & { readonly __brand: 'QuranRef' };
+
+/**
+ * Inclusive range of ayahs
+ */
+export interface AyahRange {
+  /** First ayah */
+  fromAyah: QuranRef;
+  
+  /** Last ayah */
+  toAyah: QuranRef;
+}
+
+/**
+ * A date in the Hijri (Islamic lunar) calendar
+ */
+export interface HijriDate {
+  /** Hijri year (e.g. 1446) */
+  year: number;
+  
+  /** Month (1 = Muharram, 9 = Ramadan, 12 = Dhu al-Hijjah) */
+  month: number;
+  
+  /** Day of the month (1-30) */
+  day: number;
+}
+
 /**
  * User's personalized Quran reading goal
  */
@@ -13,25 +46,117 @@ export interface UserGoal {
   id: string;
   
   /** Type of reading goal */
-  target: 'whole-quran' | 'specific-juz' | 'specific-surah';
-  
-  /** Specific target value (e.g., 30 for Juz 30, 2 for Surah Al-Baqarah) */
+  target:
+    | 'whole-quran'
+    | 'specific-juz'
+    | 'specific-surah'
+    | 'specific-hizb'
+    | 'specific-rub'
+    | 'specific-manzil'
+    | 'ayah-range';
+  
+  /** Specific target value (e.g., 30 for Juz 30, 2 for Surah Al-Baqarah, 7 for Manzil 7) */
   targetValue?: number;
   
-  /** Unit of measurement for daily reading */
-  unit: 'pages' | 'juz' | 'surah' | 'ayahs';
+  /** Inclusive ayah range for 'ayah-range' targets (e.g., 2:142 to 5:120) */
+  targetRange?: AyahRange;
+  
+  /** Ayah to resume from (e.g., 18:1); defaults to the start of the target */
+  startFrom?: QuranRef;
+  
+  /**
+   * Whether the goal is read or memorized (hifz); memorization goals schedule
+   * spaced-repetition reviews of each memorized unit. Defaults to 'reading'.
+   */
+  mode?: 'reading' | 'memorization';
+  
+  /** Unit of measurement for daily reading ('rub' is a rub' al-hizb, a quarter hizb) */
+  unit: 'pages' | 'half-pages' | 'juz' | 'surah' | 'ayahs' | 'hizb' | 'rub' | 'manzil';
   
   /** Amount to read per day (e.g., 1 page, 1 juz, 10 ayahs) */
   dailyAmount: number;
   
+  /**
+   * Amounts for specific weekdays, keyed like `daysOfWeek` (0 = Sunday);
+   * weekdays without an entry use `dailyAmount`
+   */
+  dailyAmountsByWeekday?: Partial<Record<number, number>>;
+  
+  /**
+   * How the daily load is chosen: the fixed `dailyAmount` (default),
+   * or derived from `deadline` so the goal finishes exactly on time
+   */
+  planningMode?: 'daily-amount' | 'deadline';
+  
+  /**
+   * How days are balanced: by the goal's unit (default), or by the words or
+   * letters of the Arabic text, so each day is close to the same reading effort.
+   * Days still start and end on whole ayahs.
+   */
+  weighting?: 'units' | 'words' | 'letters';
+  
+  /** Move the boundaries between days to nearby natural stopping points */
+  snapToStops?: StopSnapping;
+  
   /** Optional deadline to complete the goal */
   deadline?: Date;
   
   /** When the user wants to start reading */
   startDate: Date;
   
+  /** Hijri start date; when set, `startDate` is derived from it */
+  hijriStartDate?: HijriDate;
+  
+  /** Hijri deadline (e.g. 27 Ramadan); when set, `deadline` is derived from it */
+  hijriDeadline?: HijriDate;
+  
   /** Days of the week user wants to read (0 = Sunday, 6 = Saturday) */
   daysOfWeek: number[];
+  
+  /** Date ranges with no reading (travel, illness, menstruation) */
+  pausePeriods?: PausePeriod[];
+  
+  /** Move unread ayahs of a partially read day into the next reading day */
+  rolloverLeftover?: boolean;
+  
+  /** Changes made to the goal after it was started, oldest first */
+  revisions?: GoalRevision[];
+}
+
+/**
+ * How far, and to which stopping points, the boundaries between days may move
+ */
+export interface StopSnapping {
+  /** Boundaries a day may end at: the end of a ruku', rub' al-hizb or surah */
+  boundaries: ('ruku' | 'rub' | 'surah')[];
+  
+  /** Furthest a day's end may move from the even split, in ayahs */
+  tolerance: number;
+}
+
+/**
+ * Inclusive range of days on which a goal is paused
+ */
+export interface PausePeriod {
+  /** First paused day */
+  startDate: Date;
+  
+  /** Last paused day */
+  endDate: Date;
+}
+
+/**
+ * A change made to a running goal
+ */
+export interface GoalRevision {
+  /** When the goal was revised */
+  revisedAt: Date;
+  
+  /** Values the changed fields had before the revision */
+  previous: Partial<Omit<UserGoal, 'id' | 'revisions'>>;
+  
+  /** First unread ayah, from which the plan was rebuilt (null if all was read) */
+  replannedFrom: QuranRef | null;
 }
 
 /**
@@ -41,23 +166,169 @@ export interface DailyAssignment {
   /** Date for this assignment */
   date: Date;
   
-  /** Starting Ayah in format "surah:ayah" (e.g., "2:255") */
-  fromAyah: string;
+  /** Starting Ayah (e.g., 2:255) */
+  fromAyah: QuranRef;
   
-  /** Ending Ayah in format "surah:ayah" (e.g., "2:286") */
-  toAyah: string;
+  /** Ending Ayah (e.g., 2:286) */
+  toAyah: QuranRef;
   
-  /** Starting page number (Madani Mushaf) */
+  /** Starting page number (in the chosen mushaf layout) */
   fromPage: number;
   
-  /** Ending page number (Madani Mushaf) */
+  /** Ending page number (in the chosen mushaf layout) */
   toPage: number;
   
   /** Whether this assignment has been completed */
   completed: boolean;
   
+  /** Bookmark: last ayah read so far in this assignment, if partially read */
+  readUpTo?: QuranRef;
+  
   /** Whether this is a catch-up day for missed reading */
   isCatchUpDay: boolean;
+  
+  /** Memorized portions due for review on this day (memorization goals only) */
+  reviews?: AyahRange[];
+  
+  /**
+   * Ayahs the start and end moved from the even split to reach stopping points
+   * (negative = earlier); set when the goal snaps to stops
+   */
+  snapShift?: { start: number; end: number };
+}
+
+/**
+ * Self-graded recall of a review, from 0 (forgotten) to 5 (perfect)
+ */
+export type RecallGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * A memorized portion in the spaced-repetition (SM-2) review schedule
+ */
+export interface ReviewItem extends AyahRange {
+  /** Reviews in a row recalled with a grade of 3 or better */
+  repetitions: number;
+  
+  /** SM-2 ease factor (1.3 or more) */
+  easeFactor: number;
+  
+  /** Days between the last review and the next */
+  interval: number;
+  
+  /** Day the next review is due */
+  dueDate: Date;
+  
+  /** When the portion was last reviewed */
+  lastReviewedAt?: Date;
+}
+
+/**
+ * Reading pace required to finish a goal
+ */
+export interface PaceReport {
+  /** Total units (in the goal's unit) to read */
+  totalUnits: number;
+  
+  /** Reading days available before the deadline (or needed without one) */
+  readingDays: number;
+  
+  /** Required average units per reading day (may be fractional) */
+  unitsPerDay: number;
+  
+  /** Smallest whole daily amount that finishes on time */
+  minimumDailyAmount: number;
+  
+  /** Whether the goal as configured finishes by its deadline */
+  meetsDeadline: boolean;
+}
+
+/**
+ * Strategy for rescheduling missed assignments
+ * - spread-evenly: split the missed reading across the remaining reading days
+ * - append-days: add catch-up reading days after the end of the plan
+ * - off-days: schedule catch-up reading on the user's non-reading weekdays
+ */
+export type CatchUpStrategy = 'spread-evenly' | 'append-days' | 'off-days';
+
+/**
+ * How the remaining plan is rebuilt after reading ahead
+ * - finish-earlier: keep the daily load and finish sooner
+ * - lower-load: keep the finish date and read less each day
+ */
+export type RebalanceMode = 'finish-earlier' | 'lower-load';
+
+/**
+ * Outcome of rescheduling missed assignments
+ */
+export interface CatchUpResult {
+  /** The rescheduled plan (the original plan if no strategy fits) */
+  plan: DailyAssignment[];
+  
+  /** Strategy that was applied, or null if none could meet the deadline */
+  strategy: CatchUpStrategy | null;
+  
+  /** Whether all missed reading fits before the goal's deadline */
+  meetsDeadline: boolean;
+}
+
+/**
+ * Adjustable numeric parameter of a plan template
+ */
+export interface TemplateParameter {
+  /** Key in the template's parameter values */
+  key: string;
+  
+  /** Label shown in the setup screen */
+  label: string;
+  
+  /** Value used when the user does not change it */
+  defaultValue: number;
+  
+  /** Smallest allowed value */
+  min: number;
+  
+  /** Largest allowed value */
+  max: number;
+}
+
+/**
+ * Named preset that builds one or more goals
+ */
+export interface PlanTemplate {
+  /** Unique identifier (e.g. "ramadan-khatm") */
+  id: string;
+  
+  /** Display name (e.g. "Ramadan khatm in 30 days") */
+  name: string;
+  
+  /** Short description shown in the setup screen */
+  description: string;
+  
+  /** Parameters the user can change */
+  parameters: TemplateParameter[];
+  
+  /** Hijri month (1-12) whose next first day is the default start date, instead of today */
+  hijriStartMonth?: number;
+  
+  /** Build the template's goals from a start date and parameter values */
+  build: (startDate: Date, values: Record<string, number>) => UserGoal[];
+}
+
+/**
+ * The names of a surah in Arabic, transliteration and English translation
+ */
+export interface SurahName {
+  /** Surah number (1-114) */
+  id: number;
+  
+  /** Arabic name (e.g. "الملك") */
+  arabic: string;
+  
+  /** Transliterated name (e.g. "Al-Mulk") */
+  transliteration: string;
+  
+  /** English translation of the name (e.g. "The Sovereignty") */
+  translation: string;
 }
 
 /**
@@ -109,6 +380,26 @@ export interface Juz {
   endAyah: string;
 }
 
+/**
+ * Hizb (60 per Quran), rub' al-hizb (240) or manzil (7) information
+ */
+export interface QuranDivision {
+  /** Division number (1-60 for hizb, 1-240 for rub' al-hizb, 1-7 for manzil) */
+  id: number;
+  
+  /** Starting page number */
+  startPage: number;
+  
+  /** Ending page number */
+  endPage: number;
+  
+  /** Starting Ayah reference */
+  startAyah: string;
+  
+  /** Ending Ayah reference */
+  endAyah: string;
+}
+
 /**
  * Ayah (Verse) information
  */
@@ -128,10 +419,43 @@ export interface Ayah {
   /** Arabic text of the ayah */
   text: string;
   
+  /** Translated text, when a translation was requested */
+  translation?: string;
+  
   /** Unique identifier in format "surah:ayah" */
   key: string;
 }
 
+/**
+ * Languages with an offline translation bundled in quran-json
+ */
+export type TranslationLanguage = 'bn' | 'en' | 'es' | 'fr' | 'id' | 'ru' | 'sv' | 'tr' | 'ur' | 'zh';
+
+/**
+ * One surah's part of an ayah range, with its text, ready to display
+ */
+export interface SurahText {
+  /** Surah number */
+  surahId: number;
+  
+  /** Arabic name */
+  name: string;
+  
+  /** Transliterated name (e.g. "Al-Mulk") */
+  transliteration: string;
+  
+  /** Whether the surah begins here and is preceded by a bismillah header */
+  showBismillah: boolean;
+  
+  /** Ayahs of this surah within the range, with their text */
+  ayahs: Ayah[];
+}
+
+/**
+ * Printed mushaf editions whose page layout can be followed
+ */
+export type MushafLayoutId = 'madani' | 'warsh';
+
 /**
  * Application Settings
  */
@@ -142,14 +466,26 @@ export interface AppSettings {
   /** Time for daily reminder (in 24h format, e.g., "09:00") */
   reminderTime?: string;
   
-  /** Mushaf style preference */
-  mushafStyle: 'madani' | 'standard';
+  /** Mushaf whose page layout is used for page numbers */
+  mushafStyle: MushafLayoutId;
   
   /** Theme preference */
   theme: 'light' | 'dark' | 'system';
   
   /** Language preference */
   language: 'en' | 'ar';
+  
+  /** Language of the translation shown in the reader */
+  translationLanguage: TranslationLanguage;
+  
+  /** Show the translation under each ayah in the reader */
+  showTranslation: boolean;
+  
+  /** Show Hijri dates alongside Gregorian ones */
+  showHijriDates: boolean;
+  
+  /** Days added to calculated Hijri dates to match local moon sighting */
+  hijriOffset: number;
 }
 
 /**
@@ -177,3 +513,125 @@ export interface ProgressStats {
   /** Total ayahs read */
   totalAyahsRead: number;
 }
+
+/**
+ * A goal tracked in the store together with its plan and progress
+ */
+export interface GoalRecord {
+  /** The goal itself */
+  goal: UserGoal;
+  
+  /** Generated plan with daily assignments */
+  plan: DailyAssignment[];
+  
+  /** Current streak (consecutive days completed) */
+  currentStreak: number;
+  
+  /** Best streak achieved */
+  bestStreak: number;
+  
+  /** Total days completed */
+  totalDaysCompleted: number;
+  
+  /** Archived goals are kept for history but no longer scheduled */
+  archived: boolean;
+  
+  /** Review schedule of memorized units (memorization goals only) */
+  reviewItems?: ReviewItem[];
+}
+
+/**
+ * A daily assignment tagged with the goal it belongs to
+ */
+export interface GoalAssignment {
+  /** ID of the goal this assignment belongs to */
+  goalId: string;
+  
+  /** The assignment itself */
+  assignment: DailyAssignment;
+}
+
+/**
+ * A muraja'ah rotation: revising every memorized juz or surah once per cycle
+ */
+export interface RevisionRotation {
+  /** Whether the memorized portions are juz or surahs */
+  unit: 'juz' | 'surah';
+  
+  /** Memorized juz or surah numbers */
+  memorized: number[];
+  
+  /** Days it takes to revise everything once (e.g. 7) */
+  cycleDays: number;
+  
+  /** First day of the first cycle */
+  startDate: Date;
+}
+
+/**
+ * A recurring reading with no end, such as Al-Kahf every Friday
+ */
+export interface ReadingRoutine {
+  /** Unique identifier for the routine */
+  id: string;
+  
+  /** Display name (e.g. "Al-Mulk and As-Sajdah nightly") */
+  name: string;
+  
+  /** Surahs read each time, in reading order */
+  surahIds: number[];
+  
+  /** Days of the week the routine is read (0 = Sunday, 6 = Saturday) */
+  daysOfWeek: number[];
+  
+  /** First day the routine is read */
+  startDate: Date;
+}
+
+/**
+ * A routine tracked in the store together with its completions and streaks
+ */
+export interface RoutineRecord {
+  /** The routine itself */
+  routine: ReadingRoutine;
+  
+  /** Days the routine was read, as local "YYYY-MM-DD" keys */
+  completedDays: string[];
+  
+  /** Current streak (consecutive routine days completed) */
+  currentStreak: number;
+  
+  /** Best streak achieved */
+  bestStreak: number;
+  
+  /** Archived routines are kept for history but no longer scheduled */
+  archived: boolean;
+}
+
+/**
+ * A day's routine reading tagged with the routine it belongs to
+ */
+export interface RoutineAssignment {
+  /** ID of the routine this reading belongs to */
+  routineId: string;
+  
+  /** One assignment per surah of the routine */
+  assignments: DailyAssignment[];
+}
+
+/**
+ * Snapshot of the goal store that is written to persistent storage
+ */
+export interface PersistedGoalState {
+  /** All goals keyed by `UserGoal.id` */
+  goals: Record<string, GoalRecord>;
+  
+  /** Recurring routines keyed by `ReadingRoutine.id` */
+  routines: Record<string, RoutineRecord>;
+  
+  /** ID of the goal currently shown to the user */
+  activeGoalId: string | null;
+  
+  /** Timestamp of last update */
+  lastUpdated: Date | null;
+}